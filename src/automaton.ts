@@ -0,0 +1,117 @@
+type AutomatonPattern<T> = {
+    text: string;
+    value: T;
+};
+
+type AutomatonOutput<T> = {
+    value: T;
+    length: number;
+};
+
+export type AutomatonHit<T> = {
+    value: T;
+    start: number;
+    end: number;
+};
+
+export type Automaton<T> = {
+    transitions: Map<string, number>[];
+    failures: number[];
+    outputs: AutomatonOutput<T>[][];
+};
+
+/**
+ * Build an Aho-Corasick automaton from a list of literal patterns, so that
+ * all of them can be found in a single pass over the text, regardless of
+ * how many patterns there are.
+ *
+ * NB: Patterns are matched literally and case-sensitively, normalize both
+ * the patterns and the text beforehand.
+ * NB: Empty patterns are ignored.
+ *
+ * @see https://en.wikipedia.org/wiki/Aho%E2%80%93Corasick_algorithm
+ */
+export function createAutomaton<T>(patterns: AutomatonPattern<T>[]): Automaton<T> {
+    const automaton: Automaton<T> = {
+        transitions: [new Map<string, number>()],
+        failures: [0],
+        outputs: [[]]
+    };
+
+    for (const { text, value } of patterns) {
+        if (text.length === 0) {
+            continue;
+        }
+
+        let state = 0;
+
+        for (const char of text) {
+            let next = automaton.transitions[state].get(char);
+
+            if (next === undefined) {
+                next = automaton.transitions.length;
+                automaton.transitions.push(new Map());
+                automaton.failures.push(0);
+                automaton.outputs.push([]);
+                automaton.transitions[state].set(char, next);
+            }
+
+            state = next;
+        }
+
+        automaton.outputs[state].push({ value, length: text.length });
+    }
+
+    /**
+     * Breadth-first traversal, so that failure links of shallower
+     * states are always resolved before the deeper ones.
+     */
+    const queue = Array.from(automaton.transitions[0].values());
+
+    for (let i = 0; i < queue.length; i++) {
+        const state = queue[i];
+
+        for (const [char, next] of automaton.transitions[state]) {
+            let failure = automaton.failures[state];
+
+            while (failure !== 0 && !automaton.transitions[failure].has(char)) {
+                failure = automaton.failures[failure];
+            }
+
+            const target = automaton.transitions[failure].get(char);
+
+            automaton.failures[next] = target !== undefined && target !== next ? target : 0;
+            automaton.outputs[next].push(...automaton.outputs[automaton.failures[next]]);
+
+            queue.push(next);
+        }
+    }
+
+    return automaton;
+}
+
+/**
+ * Find every occurrence (including overlapping ones) of every pattern in the text.
+ * Start index is inclusive and end index is exclusive, same as String.prototype.slice.
+ */
+export function searchAutomaton<T>(automaton: Automaton<T>, text: string) {
+    const hits: AutomatonHit<T>[] = [];
+    let state = 0;
+    let index = 0;
+
+    for (const char of text) {
+        index += char.length;
+
+        while (state !== 0 && !automaton.transitions[state].has(char)) {
+            state = automaton.failures[state];
+        }
+
+        state = automaton.transitions[state].get(char) ?? 0;
+
+        for (const { value, length } of automaton.outputs[state]) {
+            hits.push({ value, start: index - length, end: index });
+        }
+    }
+
+    return hits;
+}
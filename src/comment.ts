@@ -1,125 +1,223 @@
-import type { SetPostFlairOptions, TriggerContext } from '@devvit/public-api';
-import { capitalizeString } from './helpers.js';
-import type { AppSettings, PostData, Source } from './types.js';
+import type { Comment, TriggerContext } from '@devvit/public-api';
+import { updateFlair } from './flair.js';
+import { getReportLanguages, getTypeLabel, translate } from './i18n.js';
+import { describeWrapper } from './links.js';
+import { describeMatch } from './matcher.js';
+import { getOrganization } from './organizations.js';
+import { PLATFORMS, getProfileUrl } from './platforms.js';
+import type { LedgerEntry } from './storage.js';
+import { createLedgerEntry } from './storage.js';
+import type { TemplateContext, TemplatePlaceholders } from './template.js';
+import { renderTemplate } from './template.js';
+import { getTierLabel, isUnreliableTier } from './tiers.js';
+import type { AppSettings, Language, PostData, SourceResult } from './types.js';
 
 /**
- * Don't flair self-posts and posts without a source that has a tier (like aggregators).
+ * Placeholders available in the comment template. Placeholders inside
+ * {{#sources}}...{{/sources}} are rendered once for each source, and those
+ * inside {{#socials}}...{{/socials}} once for each of its social accounts.
+ * The header, tierName, label, typeLabel and warningText are translated
+ * to the report language.
  */
-function shouldFlairPost(postData: PostData, sources: Source[]) {
-    if (postData.url?.hostname && ['reddit.com', 'www.reddit.com'].includes(postData.url.hostname)) {
-        return false;
-    }
+export const commentTemplatePlaceholders: TemplatePlaceholders = {
+    header: true,
+    sources: {
+        name: true,
+        tier: true,
+        tierName: true,
+        label: true,
+        twitter: true,
+        socials: {
+            platform: true,
+            label: true,
+            handle: true,
+            url: true,
+        },
+        domain: true,
+        type: true,
+        typeLabel: true,
+        organization: true,
+        journalist: true,
+        media: true,
+        aggregator: true,
+        details: true,
+        via: true,
+    },
+    warning: true,
+    warningText: true,
+    footer: true,
+};
 
-    /**
-     * Sources are sorted by tier, so if the first source has no tier,
-     * then no source has a tiers.
-     */
-    if (!sources[0]?.tier) {
-        return false;
-    }
+/**
+ * Reproduces the original hardcoded report, with the organization (outlet)
+ * after the name of journalists that have one. Each part is prefixed with a
+ * blank line inside its own section, so that missing parts (like an empty
+ * footer) don't leave any extra blank lines behind.
+ */
+export const DEFAULT_COMMENT_TEMPLATE = [
+    '**{{header}}**',
+    '{{#sources}}\n\n- ',
+    '**{{#tier}}{{tierName}}{{/tier}}{{^tier}}{{typeLabel}}{{/tier}}**: {{name}}{{#organization}} ({{organization}}){{/organization}}',
+    '{{#twitter}} ([@{{twitter}}](https://twitter.com/{{twitter}})){{/twitter}}',
+    '{{^twitter}}{{#domain}} ([{{domain}}](https://{{domain}})){{/domain}}{{/twitter}}',
+    '{{#tier}} - {{label}}{{/tier}}',
+    '{{#details}} *(matched {{details}})*{{/details}}',
+    '{{/sources}}',
+    '{{#warning}}\n\n{{warningText}}{{/warning}}',
+    '{{#footer}}\n\n{{footer}}{{/footer}}',
+].join('');
+
+/**
+ * NB: Organizations that don't reference a source (from lists saved before
+ * they were linted) are shown as they are.
+ */
+function getSourceContext({ source, matches }: SourceResult, settings: AppSettings, language: Language): TemplateContext {
+    const { name, tier, type } = source;
+    const organization = getOrganization(source, settings.sources)?.name ?? source.organization;
+    const wrapper = matches.find(match => match.wrapper)?.wrapper;
+
+    return {
+        name,
+        tier,
+        tierName: tier !== null ? translate(language, 'tierName', { tier }) : null,
+        label: tier !== null ? getTierLabel(settings.tiers, tier, language) : null,
+        twitter: source.socials.twitter ?? null,
+        socials: source.handles.map(({ platform, handle }) => ({
+            platform,
+            label: PLATFORMS[platform].label,
+            handle,
+            url: getProfileUrl(platform, handle),
+        })),
+        domain: source.domainRules.length > 0 ? source.domainRules[0].domain : null,
+        type,
+        typeLabel: getTypeLabel(type, language),
+        organization,
+        journalist: type === 'journalist',
+        media: type === 'media',
+        aggregator: type === 'aggregator',
+        details: settings.showMatchDetails ? matches.map(describeMatch).join(', ') : null,
+        via: wrapper ? describeWrapper(wrapper) : null,
+    };
+}
 
-    return true;
+/**
+ * Build the media reliability report comment from the comment template
+ * (or the default one if the setting is left empty).
+ *
+ * In multilingual mode the report is rendered once per language, separated
+ * by horizontal rules, with the footer only at the end.
+ */
+export function getCommentMarkdown(results: SourceResult[], settings: AppSettings) {
+    const languages = getReportLanguages(settings.language, settings.multilingualReport);
+    const warning = results.some(({ source }) => isUnreliableTier(settings.tiers, source.tier));
+
+    return languages
+        .map((language, index) => renderTemplate(settings.commentTemplate || DEFAULT_COMMENT_TEMPLATE, {
+            header: translate(language, 'reportHeader'),
+            sources: results.map(result => getSourceContext(result, settings, language)),
+            warning,
+            warningText: translate(language, 'reportWarning'),
+            footer: index === languages.length - 1 ? settings.commentFooter : '',
+        }))
+        .join('\n\n---\n\n');
 }
 
-type FlairPostProps = {
-    postId: string;
-    sources: Source[];
-    subredditName: Exclude<SetPostFlairOptions['subredditName'], undefined>;
-    flairCssClass: Exclude<SetPostFlairOptions['cssClass'], undefined>;
-    flairTemplateId: Exclude<SetPostFlairOptions['flairTemplateId'], undefined>;
+type SubmitCommentProps = {
+    postData: PostData;
+    results: SourceResult[];
+    settings: AppSettings;
     context: TriggerContext;
 };
 
-export async function flairPost({ postId, sources, subredditName, flairCssClass, flairTemplateId, context }: FlairPostProps) {
-    const flairText = sources[0].tier
-        ? `Tier ${sources[0].tier}`
-        : sources[0].type === 'aggregator'
-            ? 'Aggregator'
-            : null;
+export async function submitComment({ postData, results, settings, context }: SubmitCommentProps) {
+    const flairText = await updateFlair({ postData, results, settings, context });
 
-    if (!flairText) {
-        return;
-    }
-
-    await context.reddit.setPostFlair({
-        postId,
-        text: flairText,
-        cssClass: flairCssClass,
-        flairTemplateId: flairTemplateId,
-        subredditName: subredditName
+    const comment = await context.reddit.submitComment({
+        id: postData.id,
+        text: getCommentMarkdown(results, settings)
     });
+
+    await Promise.all([
+        comment.distinguish(true),
+        comment.lock()
+    ]);
+
+    return createLedgerEntry({ commentId: comment.id, flairText, results, settings });
 }
 
-function reliabilityLevel(tier: Source['tier']) {
-    switch (tier) {
-        case 1: return 'very reliable';
-        case 2: return 'reliable';
-        case 3: return '❗ unreliable';
-        case 4: return '❗ very unreliable';
-        case 5: return '❗ extremely unrialable';
-        default: throw new Error(`Invalid tier: ${tier}`);
+type UpdateCommentProps = {
+    postData: PostData;
+    results: SourceResult[] | null;
+    entry: LedgerEntry;
+    settings: AppSettings;
+    context: TriggerContext;
+};
+
+/**
+ * The report comment, or null if it's gone (e.g. a moderator deleted or
+ * removed it by hand). Other errors are thrown, so that a report that
+ * couldn't be fetched is never posted again.
+ */
+async function getReportComment(context: TriggerContext, commentId: string) {
+    let comment: Comment;
+
+    try {
+        comment = await context.reddit.getCommentById(commentId);
     }
+    catch (error) {
+        if (error instanceof Error && error.message === 'not found') {
+            return null;
+        }
+
+        throw error;
+    }
+
+    return comment.removed || comment.authorName === '[deleted]' ? null : comment;
 }
 
-function getSourceLine(source: Source) {
-    const { name, twitter, tier, type } = source;
-    const domain = source.domains && source.domains.length > 0 ? source.domains[0] : null;
+/**
+ * Bring the report of an edited post up to date. Edit the previously posted
+ * report comment in place, or delete it (and the flair) if no sources remain.
+ * If there is no report comment (yet or anymore), submit one as if the post was new.
+ *
+ * NB: Only for posts with a ledger entry, others may have a report from
+ * before the ledger existed.
+ */
+export async function updateComment({ postData, results, entry, settings, context }: UpdateCommentProps) {
+    const comment = entry.commentId ? await getReportComment(context, entry.commentId) : null;
 
-    const sourceName = twitter
-        ? `${name} ([@${twitter}](https://twitter.com/${twitter}))`
-        : domain
-            ? `${name} ([${domain}](https://${domain}))`
-            : name;
+    if (!comment) {
+        if (results) {
+            return await submitComment({ postData, results, settings, context });
+        }
 
-    if (tier) {
-        return `**Tier ${tier}**: ${sourceName} - ${reliabilityLevel(tier)}`;
+        if (entry.flairText) {
+            await context.reddit.removePostFlair(postData.subredditName, postData.id);
+        }
+
+        return createLedgerEntry({ commentId: null, flairText: null, results, settings });
     }
-    else {
-        return `**${capitalizeString(type)}**: ${sourceName}`;
+
+    if (!results) {
+        await Promise.all([
+            comment.delete(),
+            entry.flairText ? context.reddit.removePostFlair(postData.subredditName, postData.id) : null
+        ]);
+
+        return createLedgerEntry({ commentId: null, flairText: null, results, settings });
     }
-}
 
-type SubmitCommentProps = {
-    postData: PostData;
-    sources: Source[];
-    settings: AppSettings;
-    context: TriggerContext;
-};
+    const flairText = await updateFlair({ postData, results, settings, context });
 
-export async function submitComment({ postData, sources, settings, context }: SubmitCommentProps) {
-    if (shouldFlairPost(postData, sources)) {
-        await flairPost({
-            postId: postData.id,
-            sources: sources,
-            subredditName: postData.subredditName,
-            flairCssClass: settings.flairCssClass,
-            flairTemplateId: settings.flairTemplateId,
-            context: context
-        });
+    if (!flairText && entry.flairText) {
+        await context.reddit.removePostFlair(postData.subredditName, postData.id);
     }
 
-    const header = `**Media reliability report:**`;
-    const warningForUnreliable = sources.some(source => source.tier && source.tier >= 3)
-        ? '❗ Readers beware: This post contains information from unreliable and/or untrustworthy source(s). As such, we highly encourage our userbase to question the authenticity of any claims or quotes presented by it before jumping into conclusions or taking things as a fact.'
-        : null;
-    const footer = settings.commentFooter;
-
-    const markdown = [
-        header,
-        ...sources.map(source => `- ${getSourceLine(source)}`),
-        warningForUnreliable,
-        footer
-    ]
-        .filter(Boolean)
-        .join('\n\n');
+    const text = getCommentMarkdown(results, settings);
 
-    const comment = await context.reddit.submitComment({
-        id: postData.id,
-        text: markdown
-    });
+    if (comment.body !== text) {
+        await comment.edit({ text });
+    }
 
-    await Promise.all([
-        comment.distinguish(true),
-        comment.lock()
-    ]);
-}
\ No newline at end of file
+    return createLedgerEntry({ commentId: comment.id, flairText, results, settings });
+}
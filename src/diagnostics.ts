@@ -0,0 +1,92 @@
+import { getCommentMarkdown } from './comment.js';
+import { getFlair, getFlairSource, shouldFlairPost } from './flair.js';
+import { describeWrapper } from './links.js';
+import { describeMatch } from './matcher.js';
+import { evaluateModerationRules } from './moderation.js';
+import type { AppSettings, Link, PostData, SourceResult } from './types.js';
+
+type DiagnosticReportProps = {
+    postData: PostData;
+    results: SourceResult[] | null;
+    settings: AppSettings;
+};
+
+/**
+ * Prefix every line with "> " so that multi-line text (like post body
+ * or the report comment) is rendered as a single quote block.
+ */
+function quote(text: string) {
+    return text
+        .split('\n')
+        .map(line => `> ${line}`)
+        .join('\n');
+}
+
+function describeLink({ target, wrapper }: Link) {
+    return wrapper ? `${target.href} (${describeWrapper(wrapper)})` : target.href;
+}
+
+function getSourcesSection(results: SourceResult[] | null) {
+    if (!results) {
+        return '*No sources found.*';
+    }
+
+    return results
+        .map(({ source, matches, score }) => {
+            const level = source.tier !== null ? `Tier ${source.tier}` : 'no tier';
+            const details = matches.map(match => `    - ${describeMatch(match)}`);
+
+            return [`- **${source.name}** (id: \`${source.id}\`, ${source.type}, ${level}, score ${score})`, ...details].join('\n');
+        })
+        .join('\n');
+}
+
+function getFlairSection(postData: PostData, results: SourceResult[] | null, settings: AppSettings) {
+    const source = results && shouldFlairPost(postData, results, settings)
+        ? getFlairSource(results, settings)
+        : null;
+    const flair = source ? getFlair(source, settings) : null;
+
+    if (!source || !flair) {
+        return '*Post would not be flaired.*';
+    }
+
+    const details = [
+        flair.flairTemplateId ? `template \`${flair.flairTemplateId}\`` : null,
+        flair.cssClass ? `CSS class \`${flair.cssClass}\`` : null
+    ].filter(Boolean);
+
+    return details.length > 0
+        ? `\`${flair.text}\` based on ${source.name} (${details.join(', ')})`
+        : `\`${flair.text}\` based on ${source.name}`;
+}
+
+function getModerationSection(results: SourceResult[] | null, settings: AppSettings) {
+    const triggered = evaluateModerationRules(results, settings);
+
+    if (triggered.length === 0) {
+        return '*No moderation rules triggered.*';
+    }
+
+    return triggered
+        .map(({ rule, sources }) => `- **${rule.name}**: ${rule.actions.join(', ')} (${sources.map(({ name }) => name).join(', ')})`)
+        .join('\n');
+}
+
+/**
+ * Build a diagnostic report explaining what the app would do with a post,
+ * without doing any of it. Used by the "Analyze post" moderator menu action.
+ */
+export function buildDiagnosticReport({ postData, results, settings }: DiagnosticReportProps) {
+    return [
+        `**Media reliability analysis for https://redd.it/${postData.id.replace(/^t3_/, '')}**`,
+        `**Normalized title:**\n\n${quote(postData.titleNormalized)}`,
+        `**Normalized body:**\n\n${postData.bodyNormalized ? quote(postData.bodyNormalized) : '*No body.*'}`,
+        `**Post URL:** ${postData.url ? describeLink(postData.url) : '*None (self-post or reddit link).*'}`,
+        `**Extracted links:**\n\n${postData.links ? postData.links.map(link => `- ${describeLink(link)}`).join('\n') : '*No links.*'}`,
+        `**Matched sources:**\n\n${getSourcesSection(results)}`,
+        `**Flair:** ${getFlairSection(postData, results, settings)}`,
+        `**Moderation rules:**\n\n${getModerationSection(results, settings)}`,
+        `**Comment:**\n\n${results ? quote(getCommentMarkdown(results, settings)) : '*No comment would be posted.*'}`,
+    ].join('\n\n');
+}
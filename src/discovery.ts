@@ -0,0 +1,136 @@
+import { capitalizeString } from './helpers.js';
+import { PLATFORMS, PLATFORM_NAMES, getHandleFromUrl } from './platforms.js';
+import { getUnmatchedDomains } from './stats.js';
+import type { AppSettings, Platform, PostData, Source, SourceResult } from './types.js';
+
+/**
+ * Something that shows up in posts but matches no source: a domain or
+ * a handle on one of the social platforms.
+ */
+export type DiscoveryCandidate = {
+    kind: 'domain' | Platform;
+    value: string;
+};
+
+export type DiscoveryReview = 'dismissed' | 'promoted';
+
+export type DiscoveryItem = DiscoveryCandidate & {
+    key: string;
+    count: number;
+};
+
+/**
+ * Candidates are stored by key, e.g. "domain:example.com" or "twitter:handle".
+ */
+export function getDiscoveryKey({ kind, value }: DiscoveryCandidate) {
+    return `${kind}:${value.toLowerCase()}`;
+}
+
+export function parseDiscoveryKey(key: string): DiscoveryCandidate | null {
+    const separator = key.indexOf(':');
+    const kind = key.slice(0, separator);
+    const value = key.slice(separator + 1);
+
+    if (separator === -1 || value === '') {
+        return null;
+    }
+
+    return kind === 'domain' || PLATFORM_NAMES.includes(kind as Platform)
+        ? { kind: kind as DiscoveryCandidate['kind'], value }
+        : null;
+}
+
+/**
+ * Domains and social handles of the post URL and body links that no source
+ * matched, each counted once per post.
+ */
+export function getDiscoveryCandidates(postData: PostData, results: SourceResult[] | null, settings: AppSettings): DiscoveryCandidate[] {
+    const links = [
+        ...(postData.url ? [postData.url] : []),
+        ...(postData.links && settings.analyzeLinksInBody ? postData.links : [])
+    ];
+
+    const matchedHandles = new Set((results ?? []).flatMap(({ matches }) => matches
+        .filter(({ rule }) => PLATFORM_NAMES.includes(rule as Platform))
+        .map(({ rule, text }) => getDiscoveryKey({ kind: rule as Platform, value: text }))));
+
+    const handles = links
+        .map(({ target }) => getHandleFromUrl(target))
+        .flatMap(found => found ? [{ kind: found.platform, value: found.handle }] : [])
+        .filter(candidate => !matchedHandles.has(getDiscoveryKey(candidate)));
+
+    const candidates = [
+        ...getUnmatchedDomains(postData, results, settings).map(value => ({ kind: 'domain' as const, value })),
+        ...handles
+    ];
+
+    return candidates.filter((candidate, index) => candidates.findIndex(other => getDiscoveryKey(other) === getDiscoveryKey(candidate)) === index);
+}
+
+/**
+ * Candidates seen in at least the threshold number of posts that haven't
+ * been reviewed yet, the most frequent first.
+ */
+export function buildDiscoveryQueue(counts: Record<string, number>, reviewed: Record<string, DiscoveryReview>, threshold: number): DiscoveryItem[] {
+    return Object.entries(counts)
+        .filter(([key, count]) => count >= threshold && !(key in reviewed))
+        .flatMap(([key, count]) => {
+            const candidate = parseDiscoveryKey(key);
+            return candidate ? [{ ...candidate, key, count }] : [];
+        })
+        .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+}
+
+export function describeDiscoveryItem({ kind, value, count }: DiscoveryItem) {
+    const label = kind === 'domain' ? value : `${PLATFORMS[kind].label} @${value}`;
+    return `${label} (${count === 1 ? '1 post' : `${count} posts`})`;
+}
+
+/**
+ * The part of a domain or handle that names the source,
+ * e.g. "example" for "news.example.com".
+ */
+function getDraftName(candidate: DiscoveryCandidate) {
+    const labels = candidate.value.split('.');
+    return candidate.kind === 'domain' && labels.length > 1 ? labels[labels.length - 2] : labels[0];
+}
+
+/**
+ * Make an id from the name that isn't used by any source yet.
+ */
+function getDraftId(name: string, sources: Source[]) {
+    const base = name.toLowerCase().replace(/[^a-z0-9_-]/g, '');
+    const ids = new Set(sources.map(({ id }) => id));
+
+    let id = base;
+
+    for (let i = 2; ids.has(id); i++) {
+        id = `${base}-${i}`;
+    }
+
+    return id;
+}
+
+/**
+ * A source entry pre-filled from a discovered domain or handle, for moderators
+ * to complete (name, tier) and add to the source list.
+ *
+ * NB: The tier is left empty on purpose, drafts must be rated by a person.
+ */
+export function createDraftSource(candidate: DiscoveryCandidate, sources: Source[]) {
+    const name = getDraftName(candidate);
+    const isDomain = candidate.kind === 'domain';
+
+    return {
+        id: getDraftId(name, sources),
+        name: isDomain ? capitalizeString(name) : candidate.value,
+        nameIsCommon: false,
+        aliases: [],
+        type: isDomain ? 'media' : 'journalist',
+        tier: null,
+        organization: null,
+        twitter: null,
+        socials: !isDomain ? { [candidate.kind]: candidate.value } : {},
+        domains: isDomain ? [candidate.value] : null,
+    };
+}
@@ -0,0 +1,54 @@
+import type { DomainRule } from './types.js';
+
+/**
+ * Path prefixes are compared case-insensitively and without trailing slashes,
+ * so "/Blogs/" is the same prefix as "/blogs".
+ */
+function normalizePath(path: string) {
+    const normalized = path.toLowerCase().replace(/\/+$/, '');
+    return normalized !== '' ? normalized : null;
+}
+
+/**
+ * Parse a "domains" entry of a source, either a plain domain with an optional
+ * path prefix ("marca.com" or "medium.com/@someone"), or an object with path
+ * prefixes to exclude ({ "domain": "marca.com", "exclude": ["/en/blogs"] }).
+ */
+export function parseDomainRule(entry: string | { domain: string, exclude: string[] }): DomainRule {
+    const { domain, exclude } = typeof entry === 'string' ? { domain: entry, exclude: [] } : entry;
+    const slash = domain.indexOf('/');
+
+    return {
+        domain,
+        hostname: (slash !== -1 ? domain.slice(0, slash) : domain).toLowerCase(),
+        path: slash !== -1 ? normalizePath(domain.slice(slash)) : null,
+        exclude: exclude.flatMap(path => normalizePath(path) ?? []),
+    };
+}
+
+/**
+ * Check if a path is the prefix itself or one of its subpaths,
+ * e.g. "/blogs" matches "/blogs" and "/blogs/x" but not "/blogsx".
+ */
+function isPathUnder(pathname: string, prefix: string) {
+    return pathname === prefix || pathname.startsWith(`${prefix}/`);
+}
+
+/**
+ * Check if a URL pathname is covered by the path prefix of the rule and not
+ * by any of its exclusions. The hostname is matched by the caller.
+ */
+export function isPathInDomainRule(rule: DomainRule, pathname: string) {
+    const path = pathname.toLowerCase();
+
+    return (rule.path === null || isPathUnder(path, rule.path))
+        && !rule.exclude.some(prefix => isPathUnder(path, prefix));
+}
+
+/**
+ * Compare rules from the most to the least specific: a longer hostname
+ * (subdomain) first, then a longer path prefix.
+ */
+export function compareDomainRules(a: DomainRule, b: DomainRule) {
+    return (b.hostname.length - a.hostname.length) || ((b.path?.length ?? 0) - (a.path?.length ?? 0));
+}
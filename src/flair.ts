@@ -0,0 +1,184 @@
+import type { TriggerContext } from '@devvit/public-api';
+import { getTypeLabel, translate } from './i18n.js';
+import type { TemplatePlaceholders } from './template.js';
+import { renderTemplate } from './template.js';
+import { getTierLabel, getTierOrder } from './tiers.js';
+import type { AppSettings, FlairMapping, MatchLocation, PostData, Source, SourceResult } from './types.js';
+
+export type Flair = {
+    text: string;
+    flairTemplateId: string;
+    cssClass: string;
+};
+
+/**
+ * Placeholders available in flair mapping text templates.
+ */
+export const flairTemplatePlaceholders: TemplatePlaceholders = {
+    name: true,
+    tier: true,
+    label: true,
+    type: true,
+    typeLabel: true,
+};
+
+function isMappingForSource(mapping: FlairMapping, source: Source) {
+    return (mapping.tiers === null || (source.tier !== null && mapping.tiers.includes(source.tier)))
+        && (mapping.types === null || mapping.types.includes(source.type));
+}
+
+/**
+ * First flair mapping that applies to the source, if any.
+ */
+function getFlairMapping(source: Source, settings: AppSettings) {
+    return settings.flairMappings.find(mapping => isMappingForSource(mapping, source)) ?? null;
+}
+
+function getDefaultFlairText(source: Source, settings: AppSettings) {
+    return source.tier !== null
+        ? translate(settings.language, 'tierName', { tier: source.tier })
+        : source.type === 'aggregator'
+            ? getTypeLabel(source.type, settings.language)
+            : null;
+}
+
+/**
+ * Only sources with a tier (or a flair mapping, like aggregators) can be used for flair.
+ */
+function canFlairSource(source: Source, settings: AppSettings) {
+    return source.tier !== null || getFlairMapping(source, settings) !== null;
+}
+
+/**
+ * Where the post's primary source is expected to be found, in order of preference.
+ */
+const primaryLocations: MatchLocation[][] = [['url'], ['title'], ['link', 'body']];
+
+/**
+ * Pick the source to flair the post with, according to the flair policy:
+ *
+ * mostReliable - source with the most reliable tier
+ * leastReliable - source with the least reliable tier
+ * primary - most reliable source from the post URL, then the title, then the body
+ *
+ * Sources with a tier always take precedence over sources without one.
+ *
+ * NB: Results are already sorted from most to least reliable.
+ */
+export function getFlairSource(results: SourceResult[], settings: AppSettings) {
+    const candidates = results.filter(({ source }) => canFlairSource(source, settings));
+    const tiered = candidates.filter(({ source }) => source.tier !== null);
+    const preferred = tiered.length > 0 ? tiered : candidates;
+
+    switch (settings.flairPolicy) {
+        case 'mostReliable': {
+            return preferred[0]?.source ?? null;
+        }
+        case 'leastReliable': {
+            const sorted = [...preferred].sort((a, b) => getTierOrder(settings.tiers, b.source.tier) - getTierOrder(settings.tiers, a.source.tier));
+            return sorted[0]?.source ?? null;
+        }
+        case 'primary': {
+            for (const locations of primaryLocations) {
+                const primary = tiered.find(({ matches }) => matches.some(({ location }) => locations.includes(location)))
+                    ?? candidates.find(({ matches }) => matches.some(({ location }) => locations.includes(location)));
+
+                if (primary) {
+                    return primary.source;
+                }
+            }
+
+            return null;
+        }
+    }
+}
+
+/**
+ * Don't flair self-posts and posts without a source that has a tier (like aggregators),
+ * unless there's a flair mapping for that source.
+ */
+export function shouldFlairPost(postData: PostData, results: SourceResult[], settings: AppSettings) {
+    if (postData.url && ['reddit.com', 'www.reddit.com'].includes(postData.url.target.hostname)) {
+        return false;
+    }
+
+    return getFlairSource(results, settings) !== null;
+}
+
+/**
+ * Flair for a source. Uses the first matching flair mapping, or falls back to
+ * the flair template ID and CSS class settings with "Tier N" / "Aggregator" text.
+ *
+ * NB: Flair has a single text, so it's in the chosen language even in multilingual mode.
+ */
+export function getFlair(source: Source, settings: AppSettings): Flair | null {
+    const mapping = getFlairMapping(source, settings);
+    const defaultText = getDefaultFlairText(source, settings);
+
+    const text = mapping?.text
+        ? renderTemplate(mapping.text, {
+            name: source.name,
+            tier: source.tier,
+            label: source.tier !== null ? getTierLabel(settings.tiers, source.tier, settings.language) : null,
+            type: source.type,
+            typeLabel: getTypeLabel(source.type, settings.language),
+        })
+        : defaultText;
+
+    if (!text) {
+        return null;
+    }
+
+    return {
+        text,
+        flairTemplateId: mapping?.flairTemplateId ?? settings.flairTemplateId,
+        cssClass: mapping?.flairCssClass ?? settings.flairCssClass,
+    };
+}
+
+type FlairPostProps = {
+    postId: string;
+    subredditName: string;
+    flair: Flair;
+    context: TriggerContext;
+};
+
+export async function flairPost({ postId, subredditName, flair, context }: FlairPostProps) {
+    await context.reddit.setPostFlair({
+        postId,
+        text: flair.text,
+        cssClass: flair.cssClass,
+        flairTemplateId: flair.flairTemplateId,
+        subredditName: subredditName
+    });
+}
+
+type UpdateFlairProps = {
+    postData: PostData;
+    results: SourceResult[];
+    settings: AppSettings;
+    context: TriggerContext;
+};
+
+/**
+ * Flair the post if it should be flaired and return the flair text that was applied.
+ */
+export async function updateFlair({ postData, results, settings, context }: UpdateFlairProps) {
+    const source = shouldFlairPost(postData, results, settings)
+        ? getFlairSource(results, settings)
+        : null;
+    const flair = source ? getFlair(source, settings) : null;
+
+    if (!flair) {
+        return null;
+    }
+
+    await flairPost({
+        postId: postData.id,
+        subredditName: postData.subredditName,
+        flair,
+        context
+    });
+
+    return flair.text;
+}
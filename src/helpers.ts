@@ -1,14 +1,73 @@
 import type { Context, TriggerContext } from '@devvit/public-api';
 import linkifyit from 'linkify-it';
 import { fromZodError } from 'zod-validation-error';
-import { settingsSchema } from './schema.js';
-import type { AppSettings, RedditPostV1 } from './types.js';
+import { appSettingsSchema, refineCommentWarningTier, refineModerationRuleTiers, refineSourceTiers, settingsSchema } from './schema.js';
+import { unwrapUrl } from './links.js';
+import { formatLintIssue, lintSources } from './linter.js';
+import type { AppSettings, Link, RedditCommentV2, RedditPostV1, Source } from './types.js';
+import { getWikiSources } from './wiki.js';
 
 const linkify = linkifyit();
 
 /**
- * Remove diacritics and convert to lowercase
- * 
+ * Typographic variants of punctuation and whitespace, replaced by their plain
+ * ASCII form so that e.g. L’Équipe and L'Equipe normalize the same.
+ */
+const PUNCTUATION_REPLACEMENTS: [RegExp, string][] = [
+    // zero width space, joiners, soft hyphen and byte order mark
+    [/[\u00ad\u200b-\u200d\u2060\ufeff]/g, ''],
+    // no-break, fixed width and ideographic spaces
+    [/[\u00a0\u1680\u2000-\u200a\u202f\u205f\u3000]/g, ' '],
+    // apostrophes, single quotes, primes and modifier letters
+    [/[\u2018\u2019\u201a\u201b\u2032\u02bc\u02b9\uff07]/g, '\''],
+    // double quotes and guillemets
+    [/[\u201c\u201d\u201e\u201f\u2033\u00ab\u00bb\uff02]/g, '"'],
+    // hyphens, dashes and minus
+    [/[\u2010-\u2015\u2212\ufe58\ufe63\uff0d]/g, '-'],
+    // fullwidth colon and brackets, which matter to the name and handle patterns
+    [/\uff1a/g, ':'],
+    [/\uff08/g, '('],
+    [/\uff09/g, ')'],
+    [/\uff3b/g, '['],
+    [/\uff3d/g, ']'],
+];
+
+/**
+ * Lowercase letters that have no decomposition (so they keep their
+ * "accent" after removing diacritics) and their usual transliteration.
+ *
+ * NB: Turkish dotted I lowercases to i followed by a combining dot,
+ * which is removed with the other diacritics.
+ */
+const TRANSLITERATIONS: Record<string, string> = {
+    ß: 'ss',
+    æ: 'ae',
+    œ: 'oe',
+    ø: 'o',
+    ł: 'l',
+    đ: 'd',
+    ð: 'd',
+    þ: 'th',
+    ı: 'i',
+    ħ: 'h',
+    ŧ: 't',
+    ŋ: 'n',
+    ĸ: 'k',
+    ŀ: 'l',
+    ŉ: 'n',
+    ſ: 's',
+};
+
+const TRANSLITERATION_REGEX = new RegExp(`[${Object.keys(TRANSLITERATIONS).join('')}]`, 'g');
+
+/**
+ * Normalize text for matching, the same way for sources and posts:
+ *
+ * 1. unify typographic punctuation and whitespace (see PUNCTUATION_REPLACEMENTS)
+ * 2. convert to lowercase
+ * 3. remove diacritics
+ * 4. transliterate letters without a decomposition, e.g. ß to ss (see TRANSLITERATIONS)
+ *
  * @note There is a slight performance penalty when using modern unicode
  * property escapes so prefer using the old method with character class
  * range for now.
@@ -16,10 +75,28 @@ const linkify = linkifyit();
  * @see https://stackoverflow.com/a/37511463/3258251
  */
 export function normalizeText(text: string) {
-    return text
+    return PUNCTUATION_REPLACEMENTS
+        .reduce((result, [regex, replacement]) => result.replace(regex, replacement), text)
+        .toLowerCase()
         .normalize('NFD')
         .replace(/[\u0300-\u036f]/g, '')
-        .toLowerCase();
+        .replace(TRANSLITERATION_REGEX, char => TRANSLITERATIONS[char]);
+}
+
+/**
+ * djb2 string hash (kept within 32 bits), good enough for telling different
+ * versions of the same data apart, NOT for anything security related.
+ *
+ * @see http://www.cse.yorku.ca/~oz/hash.html
+ */
+export function hashString(string: string) {
+    let hash = 5381;
+
+    for (let i = 0; i < string.length; i++) {
+        hash = (hash * 33 + string.charCodeAt(i)) % 0x100000000;
+    }
+
+    return hash.toString(16).padStart(8, '0');
 }
 
 export function capitalizeString(string: string) {
@@ -29,17 +106,102 @@ export function capitalizeString(string: string) {
 /**
  * Devvit onValidate is a bit weird, if you return string it assumes an error,
  * if you return undefined it assumes success, so here we return accordingly.
+ *
+ * NB: The source list is linted as well, but only lint errors are rejected.
  */
 export function validateSetting(key: keyof AppSettings, value: unknown) {
     const parsed = settingsSchema.shape[key].safeParse(value);
 
+    if (!parsed.success) {
+        return `Invalid value for "${key}" setting. Error:\n ${fromZodError(parsed.error)}`;
+    }
+
+    if (key === 'sources') {
+        const errors = lintSources(parsed.data as Source[]).filter(({ severity }) => severity === 'error');
+
+        return errors.length > 0
+            ? `Invalid value for "${key}" setting. Error:\n ${errors.map(formatLintIssue).join('\n ')}`
+            : undefined;
+    }
+
+    return undefined;
+}
+
+/**
+ * Devvit validates each setting on its own, so sources and tiers (which depend
+ * on each other) are validated again together, with the other setting's saved value.
+ */
+export function validateSourceTiers(sources: unknown, tiers: unknown) {
+    const parsed = settingsSchema
+        .pick({ sources: true, tiers: true })
+        .superRefine(refineSourceTiers)
+        .safeParse({ sources: sources ?? '[]', tiers: tiers ?? '[]' });
+
     return parsed.success
         ? undefined
-        : `Invalid value for "${key}" setting. Error:\n ${fromZodError(parsed.error)}`;
+        : `Sources and tiers don't match. Error:\n ${fromZodError(parsed.error)}`;
 }
 
-export async function getAllSettings(context: Context | TriggerContext) {
-    return settingsSchema.parse(await context.settings.getAll<AppSettings>());
+/**
+ * Same as validateSourceTiers, for the tier ranges of the moderation rules.
+ */
+export function validateModerationRuleTiers(moderationRules: unknown, tiers: unknown) {
+    const parsed = settingsSchema
+        .pick({ moderationRules: true, tiers: true })
+        .superRefine(refineModerationRuleTiers)
+        .safeParse({ moderationRules: moderationRules ?? '[]', tiers: tiers ?? '[]' });
+
+    return parsed.success
+        ? undefined
+        : `Moderation rules and tiers don't match. Error:\n ${fromZodError(parsed.error)}`;
+}
+
+/**
+ * Same as validateSourceTiers, for the comment warning tier.
+ */
+export function validateCommentWarningTier(analyzeComments: unknown, commentWarningTier: unknown, tiers: unknown) {
+    const parsed = settingsSchema
+        .pick({ analyzeComments: true, commentWarningTier: true, tiers: true })
+        .superRefine(refineCommentWarningTier)
+        .safeParse({ analyzeComments: analyzeComments ?? false, commentWarningTier: commentWarningTier ?? 4, tiers: tiers ?? '[]' });
+
+    return parsed.success
+        ? undefined
+        : `Comment warning tier and tiers don't match. Error:\n ${fromZodError(parsed.error)}`;
+}
+
+/**
+ * Settings are only re-parsed when they change, which keeps the parsed source
+ * list reference stable between events, so that the compiled source
+ * matcher can be reused (see getSourceMatcher).
+ */
+let settingsCache: { key: string, settings: AppSettings } | null = null;
+
+/**
+ * Parsed settings, with the sources setting as saved (see getAllSettings).
+ */
+export async function getSettings(context: Context | TriggerContext): Promise<AppSettings> {
+    const values = await context.settings.getAll<AppSettings>();
+    const key = JSON.stringify(values);
+
+    if (settingsCache?.key !== key) {
+        settingsCache = { key, settings: appSettingsSchema.parse(values) };
+    }
+
+    return settingsCache.settings;
+}
+
+/**
+ * Same as getSettings, with the sources from the wiki page if there is one.
+ *
+ * NB: Fetches the wiki page, so use getSettings for settings that don't need the sources.
+ */
+export async function getAllSettings(context: Context | TriggerContext): Promise<AppSettings> {
+    const settings = await getSettings(context);
+
+    return settings.sourcesWikiPage
+        ? { ...settings, sources: await getWikiSources(context, settings) }
+        : settings;
 }
 
 export function isIgnoredUser(username: string, settings: AppSettings) {
@@ -51,12 +213,20 @@ function nonNullable<T>(value: T): value is NonNullable<T> {
     return value !== null;
 }
 
-function getPostLinks(body: string) {
+function isRedditLink({ target }: Link) {
+    return ['v.redd.it', 'i.redd.it', 'reddit.com', 'www.reddit.com'].includes(target.hostname);
+}
+
+/**
+ * Links in the text, unwrapped from archives and redirects (see unwrapUrl),
+ * except for links to reddit itself.
+ */
+export function getPostLinks(body: string) {
     const links = (linkify.match(body) ?? [])
         .map(link => {
             try {
-                const url = new URL(link.url, 'https://www.reddit.com');
-                return ['v.redd.it', 'i.redd.it', 'reddit.com', 'www.reddit.com'].includes(url.hostname) ? null : url;
+                const unwrapped = unwrapUrl(new URL(link.url, 'https://www.reddit.com'));
+                return isRedditLink(unwrapped) ? null : unwrapped;
             }
             catch (error) {
                 return null;
@@ -68,7 +238,7 @@ function getPostLinks(body: string) {
 }
 
 export function processPost(post: RedditPostV1) {
-    const url = new URL(post.url, 'https://www.reddit.com');
+    const url = unwrapUrl(new URL(post.url, 'https://www.reddit.com'));
     const links = post.body ? getPostLinks(post.body) : null;
 
     return ({
@@ -76,19 +246,50 @@ export function processPost(post: RedditPostV1) {
         subredditName: post.subredditName,
         titleNormalized: normalizeText(post.title),
         bodyNormalized: post.body && post.body.length > 0 ? normalizeText(post.body) : null,
-        url: !['v.redd.it', 'i.redd.it', 'reddit.com', 'www.reddit.com'].includes(url.hostname) ? url : null,
+        url: !isRedditLink(url) ? url : null,
         links: links,
     });
 }
 
+export function processComment(comment: RedditCommentV2) {
+    return ({
+        id: comment.id,
+        postId: comment.postId,
+        bodyNormalized: normalizeText(comment.body),
+        links: getPostLinks(comment.body),
+    });
+}
+
+/**
+ * Start a new modmail conversation addressed to the subreddit moderators.
+ */
+export async function sendModmail(context: Context | TriggerContext, subredditName: string, subject: string, body: string) {
+    await context.reddit.modMail.createConversation({
+        subredditName,
+        subject,
+        body,
+    });
+}
+
+/**
+ * Report an error to the configured subreddit, if any.
+ *
+ * NB: Called from error handlers, so it doesn't throw (e.g. when the
+ * settings themselves are the cause of the error).
+ */
 export async function trySendPostErrorModmail(context: TriggerContext, postId: string, error: Error) {
-    const { errorReportSubredditName } = await getAllSettings(context);
-
-    if (errorReportSubredditName) {
-        await context.reddit.sendPrivateMessage({
-            subject: 'An error occurred with the media reliability app',
-            text: `An error occurred with this post: https://redd.it/${postId.replace(/^t3_/, '')}\n\n${String(error)}`,
-            to: errorReportSubredditName
-        });
+    try {
+        const { errorReportSubredditName } = await getSettings(context);
+
+        if (errorReportSubredditName) {
+            await context.reddit.sendPrivateMessage({
+                subject: 'An error occurred with the media reliability app',
+                text: `An error occurred with this post: https://redd.it/${postId.replace(/^t3_/, '')}\n\n${String(error)}`,
+                to: errorReportSubredditName
+            });
+        }
+    }
+    catch (sendError) {
+        console.error(sendError);
     }
 }
@@ -0,0 +1,92 @@
+import type { Language, Source } from './types.js';
+
+/**
+ * Languages with a bundled catalog, in the order a multilingual report lists them.
+ */
+export const LANGUAGES: Language[] = ['en', 'es', 'ca'];
+
+const en = {
+    reportHeader: 'Media reliability report:',
+    reportWarning: '❗ Readers beware: This post contains information from unreliable and/or untrustworthy source(s). As such, we highly encourage our userbase to question the authenticity of any claims or quotes presented by it before jumping into conclusions or taking things as a fact.',
+    commentWarningHeader: '❗ Heads up: this comment references unreliable source(s):',
+    commentWarningAdvice: 'Please question any claims from it before taking them as a fact.',
+    tierName: 'Tier {tier}',
+    tierVeryReliable: 'very reliable',
+    tierReliable: 'reliable',
+    tierUnreliable: 'unreliable',
+    tierVeryUnreliable: 'very unreliable',
+    tierExtremelyUnreliable: 'extremely unreliable',
+    typeJournalist: 'Journalist',
+    typeMedia: 'Media',
+    typeAggregator: 'Aggregator',
+};
+
+export type MessageKey = keyof typeof en;
+
+/**
+ * Message catalogs, messages can have {name} parameters.
+ *
+ * NB: English is the fallback for messages missing from other catalogs.
+ */
+export const CATALOGS: Record<Language, Partial<Record<MessageKey, string>>> = {
+    en,
+    es: {
+        reportHeader: 'Informe de fiabilidad de los medios:',
+        reportWarning: '❗ Atención: Esta publicación contiene información de fuentes poco fiables y/o poco dignas de confianza. Por ello, animamos a nuestra comunidad a cuestionar la autenticidad de cualquier afirmación o cita que se presente antes de sacar conclusiones o darla por cierta.',
+        commentWarningHeader: '❗ Atención: este comentario hace referencia a fuentes poco fiables:',
+        commentWarningAdvice: 'Cuestiona cualquier afirmación que provenga de ellas antes de darla por cierta.',
+        tierName: 'Nivel {tier}',
+        tierVeryReliable: 'muy fiable',
+        tierReliable: 'fiable',
+        tierUnreliable: 'poco fiable',
+        tierVeryUnreliable: 'muy poco fiable',
+        tierExtremelyUnreliable: 'nada fiable',
+        typeJournalist: 'Periodista',
+        typeMedia: 'Medio',
+        typeAggregator: 'Agregador',
+    },
+    ca: {
+        reportHeader: 'Informe de fiabilitat dels mitjans:',
+        reportWarning: '❗ Atenció: Aquesta publicació conté informació de fonts poc fiables i/o poc dignes de confiança. Per això, animem la nostra comunitat a qüestionar l\'autenticitat de qualsevol afirmació o cita que s\'hi presenti abans de treure conclusions o donar-la per certa.',
+        commentWarningHeader: '❗ Atenció: aquest comentari fa referència a fonts poc fiables:',
+        commentWarningAdvice: 'Qüestiona qualsevol afirmació que en provingui abans de donar-la per certa.',
+        tierName: 'Nivell {tier}',
+        tierVeryReliable: 'molt fiable',
+        tierReliable: 'fiable',
+        tierUnreliable: 'poc fiable',
+        tierVeryUnreliable: 'molt poc fiable',
+        tierExtremelyUnreliable: 'gens fiable',
+        typeJournalist: 'Periodista',
+        typeMedia: 'Mitjà',
+        typeAggregator: 'Agregador',
+    },
+};
+
+const TYPE_MESSAGES: Record<Source['type'], MessageKey> = {
+    journalist: 'typeJournalist',
+    media: 'typeMedia',
+    aggregator: 'typeAggregator',
+};
+
+/**
+ * Get a message in the given language, e.g. translate('es', 'tierName', { tier: 1 }) is "Nivel 1".
+ */
+export function translate(language: Language, key: MessageKey, params: Record<string, string | number> = {}) {
+    const message = CATALOGS[language][key] ?? en[key];
+    return message.replace(/\{([a-zA-Z]+)\}/g, (placeholder, name: string) => name in params ? String(params[name]) : placeholder);
+}
+
+/**
+ * Type of a source as shown in the report, e.g. "Journalist".
+ */
+export function getTypeLabel(type: Source['type'], language: Language) {
+    return translate(language, TYPE_MESSAGES[type]);
+}
+
+/**
+ * Languages to render the report in: the chosen one, followed by
+ * every other bundled language in multilingual mode.
+ */
+export function getReportLanguages(language: Language, multilingual: boolean) {
+    return multilingual ? [language, ...LANGUAGES.filter(other => other !== language)] : [language];
+}
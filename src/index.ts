@@ -1,4 +1,24 @@
 export * from './comment.js';
+export * from './diagnostics.js';
+export * from './discovery.js';
+export * from './domains.js';
+export * from './flair.js';
 export * from './helpers.js';
+export * from './i18n.js';
+export * from './links.js';
+export * from './linter.js';
+export * from './lookup.js';
 export * from './matcher.js';
+export * from './moderation.js';
+export * from './organizations.js';
+export * from './patterns.js';
+export * from './platforms.js';
 export * from './schema.js';
+export * from './scoring.js';
+export * from './stats.js';
+export * from './storage.js';
+export * from './template.js';
+export * from './tiers.js';
+export * from './triggers.js';
+export * from './warnings.js';
+export * from './wiki.js';
@@ -0,0 +1,145 @@
+import type { Link, LinkWrapper, LinkWrapperType } from './types.js';
+
+/**
+ * Wrappers can be nested (e.g. an AMP page of an archived page), but
+ * not indefinitely.
+ */
+const MAX_UNWRAP_DEPTH = 3;
+
+const ARCHIVE_TODAY_HOSTNAMES = ['archive.today', 'archive.ph', 'archive.is', 'archive.li', 'archive.vn', 'archive.fo', 'archive.md'];
+const SHORTENER_HOSTNAMES = ['t.co', 'bit.ly', 'buff.ly', 'ow.ly', 'tinyurl.com', 'goo.gl', 'dlvr.it'];
+
+/**
+ * Redirect services that carry the target URL in a query parameter.
+ */
+const REDIRECT_PARAMS: { hostnames: string[], pathname: string | null, params: string[] }[] = [
+    { hostnames: ['l.facebook.com', 'lm.facebook.com', 'l.messenger.com'], pathname: '/l.php', params: ['u'] },
+    { hostnames: ['l.instagram.com'], pathname: null, params: ['u'] },
+    { hostnames: ['google.com', 'www.google.com'], pathname: '/url', params: ['q', 'url'] },
+    { hostnames: ['youtube.com', 'www.youtube.com', 'm.youtube.com'], pathname: '/redirect', params: ['q'] },
+    { hostnames: ['out.reddit.com'], pathname: null, params: ['url'] },
+    { hostnames: ['href.li'], pathname: null, params: [] },
+];
+
+type Unwrapped = {
+    type: LinkWrapperType;
+
+    /**
+     * Null for wrappers that don't embed the target (like URL shorteners),
+     * which can't be resolved without following them.
+     */
+    target: URL | null;
+};
+
+/**
+ * Parse a URL embedded in another URL. Some archives collapse the double slash
+ * after the scheme and some drop the scheme altogether.
+ */
+function parseEmbeddedUrl(text: string, secure = true) {
+    const normalized = /^https?:\/*/i.test(text)
+        ? text.replace(/^(https?):\/*/i, '$1://')
+        : `${secure ? 'https' : 'http'}://${text}`;
+
+    try {
+        const url = new URL(normalized);
+        return url.hostname.includes('.') ? url : null;
+    }
+    catch (error) {
+        return null;
+    }
+}
+
+/**
+ * Everything after the hostname, as the embedded URL can have its own query and hash.
+ */
+function getPathAndQuery(url: URL) {
+    return `${url.pathname}${url.search}${url.hash}`;
+}
+
+function unwrapOnce(url: URL): Unwrapped | null {
+    const hostname = url.hostname.toLowerCase();
+
+    // web.archive.org/web/20240101000000/https://www.example.com/
+    if (hostname === 'web.archive.org' || hostname === 'wayback.archive.org') {
+        const embedded = /^\/web\/[^/]+\/(.+)$/.exec(getPathAndQuery(url))?.[1];
+        return { type: 'archive', target: embedded ? parseEmbeddedUrl(embedded) : null };
+    }
+
+    // archive.ph/newest/https://www.example.com/ or archive.ph/AbCd1 (not resolvable)
+    if (ARCHIVE_TODAY_HOSTNAMES.includes(hostname)) {
+        const embedded = /\/(https?:\/.+)$/i.exec(getPathAndQuery(url))?.[1];
+        return { type: 'archive', target: embedded ? parseEmbeddedUrl(embedded) : null };
+    }
+
+    // www.google.com/amp/s/www.example.com/amp/article
+    if ((hostname === 'google.com' || hostname === 'www.google.com') && url.pathname.startsWith('/amp/')) {
+        const [, secure, embedded] = /^\/amp\/(s\/)?(.+)$/.exec(getPathAndQuery(url)) ?? [];
+        return { type: 'amp', target: embedded ? parseEmbeddedUrl(embedded, secure === 's/') : null };
+    }
+
+    // www-example-com.cdn.ampproject.org/c/s/www.example.com/amp/article
+    if (hostname.endsWith('.cdn.ampproject.org')) {
+        const [, secure, embedded] = /^\/(?:c|v|i|wp)\/(s\/)?(.+)$/.exec(getPathAndQuery(url)) ?? [];
+        return { type: 'amp', target: embedded ? parseEmbeddedUrl(embedded, secure === 's/') : null };
+    }
+
+    const redirect = REDIRECT_PARAMS.find(({ hostnames, pathname }) => hostnames.includes(hostname) && (pathname === null || url.pathname === pathname));
+
+    // l.facebook.com/l.php?u=https%3A%2F%2Fwww.example.com%2F or href.li/?https://www.example.com/
+    if (redirect) {
+        const embedded = redirect.params.length > 0
+            ? redirect.params.map(param => url.searchParams.get(param)).find(Boolean)
+            : url.search.slice(1);
+
+        return { type: 'redirect', target: embedded ? parseEmbeddedUrl(embedded) : null };
+    }
+
+    if (SHORTENER_HOSTNAMES.includes(hostname)) {
+        return { type: 'shortener', target: null };
+    }
+
+    return null;
+}
+
+/**
+ * Recover the URL wrapped by archives, AMP caches and redirect services, from
+ * its path or query (there is no network access). The outermost wrapper is
+ * recorded so that it can be mentioned in the report. Wrappers that don't
+ * embed the target are recorded as well, but the link is left as it is.
+ */
+export function unwrapUrl(url: URL): Link {
+    let target = url;
+    let wrapper: LinkWrapper | null = null;
+
+    for (let depth = 0; depth < MAX_UNWRAP_DEPTH; depth++) {
+        const unwrapped = unwrapOnce(target);
+
+        if (!unwrapped) {
+            break;
+        }
+
+        wrapper ??= { type: unwrapped.type, hostname: url.hostname };
+
+        if (!unwrapped.target) {
+            break;
+        }
+
+        target = unwrapped.target;
+    }
+
+    return { target, wrapper };
+}
+
+const wrapperLabels: Record<LinkWrapperType, string> = {
+    archive: 'archived',
+    amp: 'AMP page',
+    redirect: 'redirected',
+    shortener: 'shortened',
+};
+
+/**
+ * Human readable description of a wrapper, e.g. 'archived via web.archive.org'.
+ */
+export function describeWrapper({ type, hostname }: LinkWrapper) {
+    return `${wrapperLabels[type]} via ${hostname}`;
+}
@@ -0,0 +1,179 @@
+import type { RefinementCtx } from 'zod';
+import { z } from 'zod';
+import { getSourceById } from './organizations.js';
+import { PLATFORMS } from './platforms.js';
+import type { Source } from './types.js';
+
+export type LintSeverity = 'error' | 'warning';
+
+/**
+ * A problem with an entry of the source list. Errors are rejected when the
+ * list is saved, warnings are only shown by the "Check source list" action.
+ */
+export type LintIssue = {
+    severity: LintSeverity;
+    index: number;
+    id: string;
+    message: string;
+};
+
+/**
+ * Everyday words (in the languages of the sources) that are likely to show up
+ * in posts without referring to a source, so a source named like one should
+ * have nameIsCommon set.
+ */
+const COMMON_WORDS = new Set([
+    // english
+    ...['athletic', 'daily', 'express', 'goal', 'guardian', 'independent', 'mail', 'mirror', 'news', 'record', 'sport', 'sun', 'star', 'telegraph', 'times', 'transfer', 'transfers', 'post'],
+    // spanish
+    ...['as', 'marca', 'mundo', 'diario', 'deportivo', 'relevo', 'estadio', 'gol', 'noticias', 'cadena', 'radio'],
+    // catalan
+    ...['ara', 'esport', 'diari', 'noticies'],
+    // italian and portuguese
+    ...['corriere', 'gazzetta', 'jogo', 'bola'],
+    // french and german
+    ...['equipe', 'bild', 'kicker'],
+]);
+
+/**
+ * One-word names this short are ambiguous no matter the language.
+ */
+const SHORT_NAME_LENGTH = 3;
+
+function isCommonWord(nameNormalized: string) {
+    const name = nameNormalized.trim();
+
+    return !/\s/.test(name) && (name.length <= SHORT_NAME_LENGTH || COMMON_WORDS.has(name));
+}
+
+/**
+ * Check the source list for problems that the schema can't catch on its own,
+ * most of them across entries (duplicate ids, domains and handles).
+ */
+export function lintSources(sources: Source[]): LintIssue[] {
+    const issues: LintIssue[] = [];
+    const ids = new Map<string, number>();
+    const domains = new Map<string, number>();
+    const handles = new Map<string, number>();
+
+    const add = (severity: LintSeverity, index: number, message: string) => {
+        issues.push({ severity, index, id: sources[index].id, message });
+    };
+
+    /**
+     * Record the first entry using a value, and report every later one.
+     */
+    const checkUnique = (map: Map<string, number>, key: string, index: number, message: string) => {
+        const first = map.get(key);
+
+        if (first === undefined) {
+            map.set(key, index);
+        }
+        else if (first !== index) {
+            add('error', index, `${message} (also used by sources[${first}] "${sources[first].id}").`);
+        }
+    };
+
+    sources.forEach((source, index) => {
+        checkUnique(ids, source.id, index, `Duplicate id "${source.id}"`);
+
+        for (const { nameNormalized, nameIsCommon } of [source, ...source.aliases]) {
+            if (nameNormalized.trim() === '') {
+                add('error', index, 'Name or alias is empty after normalization and would never match.');
+            }
+            else if (!nameIsCommon && isCommonWord(nameNormalized)) {
+                add('warning', index, `Name "${nameNormalized}" is a common word, consider setting nameIsCommon to true.`);
+            }
+        }
+
+        if (source.organization !== null) {
+            const organization = getSourceById(sources, source.organization);
+
+            if (!organization) {
+                add('error', index, `Organization "${source.organization}" is not the id of a source.`);
+            }
+            else if (organization === source) {
+                add('error', index, 'Organization must not be the source itself.');
+            }
+            else if (organization.type !== 'media') {
+                add('warning', index, `Organization "${source.organization}" is a ${organization.type}, not a media outlet.`);
+            }
+        }
+
+        if (source.requireContext && source.contextKeywordsNormalized.every(keyword => keyword.trim() === '')) {
+            add('error', index, 'Source requires context but has no context keywords, its name would never match.');
+        }
+
+        if (source.twitter !== null && source.socials.twitter !== source.twitter) {
+            add('error', index, `Twitter handle "${source.twitter}" is different from socials.twitter "${source.socials.twitter}".`);
+        }
+
+        for (const { platform, handle, handleNormalized } of source.handles) {
+            if (handle.startsWith('@')) {
+                add('error', index, `${PLATFORMS[platform].label} handle "${handle}" must not start with "@".`);
+            }
+
+            checkUnique(handles, `${platform}:${handleNormalized}`, index, `Duplicate ${platform} handle "${handle}"`);
+        }
+
+        for (const rule of source.domainRules) {
+            const { domain } = rule;
+
+            if (domain.includes('://')) {
+                add('error', index, `Domain "${domain}" must not include the scheme (e.g. "https://").`);
+            }
+            else if (/[?#]/.test(domain)) {
+                add('error', index, `Domain "${domain}" must not include a query or fragment.`);
+            }
+            else if (domain.split('/')[0] !== rule.hostname) {
+                add('error', index, `Domain "${domain}" must be lowercase.`);
+            }
+
+            for (const path of rule.exclude) {
+                if (!path.startsWith('/')) {
+                    add('error', index, `Excluded path "${path}" of domain "${domain}" must start with "/".`);
+                }
+                else if (rule.path !== null && !path.startsWith(`${rule.path}/`)) {
+                    add('error', index, `Excluded path "${path}" is not under domain "${domain}".`);
+                }
+            }
+
+            checkUnique(domains, `${rule.hostname}${rule.path ?? ''}`, index, `Duplicate domain "${domain}"`);
+        }
+    });
+
+    return issues;
+}
+
+export function formatLintIssue({ severity, index, id, message }: LintIssue) {
+    return `${severity === 'error' ? 'Error' : 'Warning'} in sources[${index}] "${id}": ${message}`;
+}
+
+/**
+ * Markdown report of all lint issues, used by the "Check source list" moderator action.
+ */
+export function buildLintReport(sources: Source[]) {
+    const issues = lintSources(sources);
+    const errors = issues.filter(({ severity }) => severity === 'error').length;
+
+    return [
+        `**Source list check:** ${sources.length} sources, ${errors} errors, ${issues.length - errors} warnings`,
+        ...issues.map(issue => `- ${formatLintIssue(issue)}`),
+    ].join('\n\n');
+}
+
+/**
+ * Add the lint errors as zod issues, so that they're reported together with
+ * the schema errors.
+ */
+export function refineSourceLint(sources: Source[], ctx: RefinementCtx) {
+    for (const issue of lintSources(sources)) {
+        if (issue.severity === 'error') {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: `${issue.message} (id "${issue.id}")`,
+                path: [issue.index],
+            });
+        }
+    }
+}
@@ -0,0 +1,195 @@
+import type { TriggerContext } from '@devvit/public-api';
+import { capitalizeString, normalizeText } from './helpers.js';
+import { unwrapUrl } from './links.js';
+import { findSourcesInLink } from './matcher.js';
+import { getOrganization, resolveSource } from './organizations.js';
+import { getProfileUrl } from './platforms.js';
+import { getTierLabel, getTierOrder } from './tiers.js';
+import type { AppSettings, Source } from './types.js';
+
+/**
+ * !tier marca, !tier @fabrizioromano or !source marca.com, on a line of its own.
+ */
+const LOOKUP_COMMAND_REGEX = /^[ \t]*!(?:tier|source)[ \t]+(\S[^\n]*?)[ \t]*$/im;
+
+/**
+ * At most this many sources are listed in a reply.
+ */
+const LOOKUP_MAX_SOURCES = 3;
+
+/**
+ * Longer queries get no suggestions, they can't be a typo of a source name
+ * and the edit distance to every name and alias would get expensive.
+ */
+const LOOKUP_MAX_QUERY_LENGTH = 100;
+
+export type LookupResult =
+    { type: 'found', sources: Source[] } |
+    { type: 'suggestions', sources: Source[] };
+
+/**
+ * Get the query of the lookup command in a comment, null if there is none.
+ */
+export function parseLookupCommand(body: string) {
+    return LOOKUP_COMMAND_REGEX.exec(body)?.[1] ?? null;
+}
+
+/**
+ * Queries without spaces that contain a dot are tried as links first.
+ */
+function parseLookupUrl(query: string) {
+    if (/\s/.test(query) || !query.includes('.')) {
+        return null;
+    }
+
+    try {
+        return new URL(/^https?:\/\//i.test(query) ? query : `https://${query}`);
+    }
+    catch (error) {
+        return null;
+    }
+}
+
+/**
+ * Everything a source can be looked up by: names, aliases and handles.
+ */
+function getLookupTexts(source: Source) {
+    return [
+        source.nameNormalized,
+        ...source.aliases.map(({ nameNormalized }) => nameNormalized),
+        ...source.handles.map(({ handleNormalized }) => handleNormalized)
+    ];
+}
+
+/**
+ * @see https://en.wikipedia.org/wiki/Levenshtein_distance
+ */
+export function getEditDistance(a: string, b: string) {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+
+        previous = current;
+    }
+
+    return previous[b.length];
+}
+
+/**
+ * How far off a query can be and still be suggested, about one typo per three characters.
+ */
+function getMaxDistance(query: string) {
+    return Math.max(1, Math.floor(query.length / 3));
+}
+
+/**
+ * Look a source up by link (domain or social profile), then by exact name,
+ * alias or handle, normalized the same way as posts. Without an exact hit,
+ * suggest the closest names, and names that start with the query.
+ */
+export function lookupSource(query: string, settings: AppSettings): LookupResult {
+    const url = parseLookupUrl(query.trim());
+    const linked = url ? findSourcesInLink(unwrapUrl(url), settings) : null;
+
+    if (linked) {
+        return { type: 'found', sources: linked.map(({ source }) => source).slice(0, LOOKUP_MAX_SOURCES) };
+    }
+
+    const text = normalizeText(query).trim().replace(/^@/, '');
+    const sortByTier = (a: Source, b: Source) => getTierOrder(settings.tiers, a.tier) - getTierOrder(settings.tiers, b.tier);
+
+    const exact = settings.sources
+        .filter(source => getLookupTexts(source).includes(text))
+        .map(source => resolveSource(source, settings))
+        .sort(sortByTier);
+
+    if (exact.length > 0) {
+        return { type: 'found', sources: exact.slice(0, LOOKUP_MAX_SOURCES) };
+    }
+
+    if (text.length > LOOKUP_MAX_QUERY_LENGTH) {
+        return { type: 'suggestions', sources: [] };
+    }
+
+    const maxDistance = getMaxDistance(text);
+
+    const suggestions = settings.sources
+        .map(source => ({
+            source,
+            distance: Math.min(...getLookupTexts(source).map(candidate => candidate.startsWith(text) ? 0 : getEditDistance(text, candidate)))
+        }))
+        .filter(({ distance }) => text !== '' && distance <= maxDistance)
+        .sort((a, b) => a.distance - b.distance || sortByTier(a.source, b.source))
+        .map(({ source }) => source);
+
+    return { type: 'suggestions', sources: suggestions.slice(0, LOOKUP_MAX_SOURCES) };
+}
+
+function getSourceLink(source: Source) {
+    if (source.domainRules.length > 0) {
+        const { domain } = source.domainRules[0];
+        return `[${domain}](https://${domain})`;
+    }
+
+    if (source.handles.length > 0) {
+        const { platform, handle } = source.handles[0];
+        return `[@${handle}](${getProfileUrl(platform, handle)})`;
+    }
+
+    return null;
+}
+
+function describeSource(source: Source, settings: AppSettings) {
+    const organization = getOrganization(source, settings.sources)?.name ?? source.organization;
+    const details = [capitalizeString(source.type), organization].filter(Boolean).join(', ');
+    const tier = source.tier !== null ? `Tier ${source.tier} - ${getTierLabel(settings.tiers, source.tier)}` : 'no tier';
+    const link = getSourceLink(source);
+
+    return `- **${source.name}** (${details}): ${tier}${link ? ` (${link})` : ''}`;
+}
+
+/**
+ * Reply to a lookup command.
+ *
+ * NB: The query is quoted as written, inline code keeps it from being
+ * rendered as markdown (e.g. a username mention).
+ */
+export function getLookupMarkdown(query: string, result: LookupResult, settings: AppSettings) {
+    const code = `\`${query.replace(/`/g, '')}\``;
+
+    if (result.type === 'found') {
+        return [
+            `**Media reliability of ${code}:**`,
+            result.sources.map(source => describeSource(source, settings)).join('\n'),
+        ].join('\n\n');
+    }
+
+    return result.sources.length > 0
+        ? `No source found for ${code}. Did you mean ${result.sources.map(({ name }) => `**${name}**`).join(', ')}?`
+        : `No source found for ${code}.`;
+}
+
+type ReplyToLookupProps = {
+    commentId: string;
+    query: string;
+    settings: AppSettings;
+    context: TriggerContext;
+};
+
+export async function replyToLookup({ commentId, query, settings, context }: ReplyToLookupProps) {
+    const reply = await context.reddit.submitComment({
+        id: commentId,
+        text: getLookupMarkdown(query, lookupSource(query, settings), settings)
+    });
+
+    await reply.distinguish(false);
+}
@@ -1,7 +1,9 @@
+import type { Context } from '@devvit/public-api';
 import { Devvit } from '@devvit/public-api';
-import { findSourcesInPost, getAllSettings, isIgnoredUser, processPost, submitComment, trySendPostErrorModmail, validateSetting } from './index.js';
+import type { DiscoveryReview } from './index.js';
+import { STATS_DIGEST_JOB, buildDiagnosticReport, buildDiscoveryQueue, buildLintReport, createDraftSource, createRedisStatsStore, describeDiscoveryItem, findSourcesInPost, getAllSettings, getDiscoveryCounts, getDiscoveryReviews, handleCommentSubmit, handlePostSubmit, handlePostUpdate, parseDiscoveryKey, processPost, scheduleStatsDigest, sendModmail, sendStatsDigest, setDiscoveryReview, trySendPostErrorModmail, validateCommentWarningTier, validateModerationRuleTiers, validateSetting, validateSourceTiers } from './index.js';
 
-Devvit.configure({ redditAPI: true });
+Devvit.configure({ redditAPI: true, redis: true });
 
 Devvit.addSettings([
     {
@@ -12,8 +14,56 @@ Devvit.addSettings([
         scope: 'installation',
         defaultValue: '[]',
         placeholder: 'Paste JSON array here',
+        onValidate: async ({ value }, context) => {
+            return validateSetting('sources', value) ?? validateSourceTiers(value, await context.settings.get('tiers'));
+        }
+    },
+    {
+        type: 'string',
+        name: 'sourcesWikiPage',
+        label: 'Wiki page with the list of sources',
+        helpText: 'Optional wiki page (e.g. "media-reliability/sources") with the list of sources in the same JSON format as above, which is then used instead. If a revision of the page is invalid, the last valid one is used and the error is sent to modmail.',
+        scope: 'installation',
+        defaultValue: '',
+        onValidate: ({ value }) => {
+            return validateSetting('sourcesWikiPage', value);
+        }
+    },
+    {
+        type: 'string',
+        name: 'sourcesWikiSubreddit',
+        label: 'Subreddit of the wiki page with the list of sources',
+        helpText: 'Leave empty to use this subreddit\'s wiki, or set it to another subreddit to share its list.',
+        scope: 'installation',
+        defaultValue: '',
+        onValidate: ({ value }) => {
+            return validateSetting('sourcesWikiSubreddit', value);
+        }
+    },
+    {
+        type: 'paragraph',
+        name: 'tiers',
+        label: 'List of tiers in JSON format',
+        helpText: 'Each tier has an "id" (a positive whole number used by sources), "label" (e.g. "very reliable"), "order" (lower is more reliable), "reliable" (false shows a warning in the report) and "emoji" (or null). Leave empty for the default 1-5 scale.',
+        scope: 'installation',
+        defaultValue: '[]',
+        placeholder: 'Paste JSON array here',
+        onValidate: async ({ value }, context) => {
+            return validateSetting('tiers', value)
+                ?? validateSourceTiers(await context.settings.get('sources'), value)
+                ?? validateModerationRuleTiers(await context.settings.get('moderationRules'), value)
+                ?? validateCommentWarningTier(await context.settings.get('analyzeComments'), await context.settings.get('commentWarningTier'), value);
+        }
+    },
+    {
+        type: 'boolean',
+        name: 'inheritOrganizationTier',
+        label: 'Inherit tiers from organizations',
+        helpText: 'If enabled, sources without a tier (e.g. journalists) get the tier of the source referenced by their "organization" id (e.g. their outlet).',
+        defaultValue: false,
+        scope: 'installation',
         onValidate: ({ value }) => {
-            return validateSetting('sources', value);
+            return validateSetting('inheritOrganizationTier', value);
         }
     },
     {
@@ -40,6 +90,46 @@ Devvit.addSettings([
             return validateSetting('flairCssClass', value);
         }
     },
+    {
+        type: 'paragraph',
+        name: 'flairMappings',
+        label: 'Flair mappings in JSON format',
+        helpText: 'Optional list of flairs per tier and/or source type, e.g. [{"tiers": [4, 5], "types": null, "flairTemplateId": "...", "flairCssClass": "red", "text": "Tier {{tier}}"}]. The first matching entry is used. Leave empty to use the flair template ID and CSS class above for every post.',
+        scope: 'installation',
+        defaultValue: '[]',
+        placeholder: 'Paste JSON array here',
+        onValidate: ({ value }) => {
+            return validateSetting('flairMappings', value);
+        }
+    },
+    {
+        type: 'select',
+        name: 'flairPolicy',
+        label: 'Flair policy',
+        helpText: 'Which source to flair the post with when it contains more than one.',
+        options: [
+            { label: 'Most reliable source', value: 'mostReliable' },
+            { label: 'Least reliable source', value: 'leastReliable' },
+            { label: 'Primary source (post URL, then title, then body)', value: 'primary' },
+        ],
+        defaultValue: ['mostReliable'],
+        scope: 'installation',
+        onValidate: ({ value }) => {
+            return validateSetting('flairPolicy', value);
+        }
+    },
+    {
+        type: 'paragraph',
+        name: 'moderationRules',
+        label: 'Moderation rules in JSON format',
+        helpText: 'Optional list of actions to take on new posts based on their sources, e.g. [{"name": "Tier 5", "minTier": 5, "maxTier": 5, "types": null, "sourceIds": null, "locations": null, "unlessTypes": null, "actions": ["remove"], "reason": "Removal reason"}]. Actions: remove, report, filter, lock, modmail.',
+        scope: 'installation',
+        defaultValue: '[]',
+        placeholder: 'Paste JSON array here',
+        onValidate: async ({ value }, context) => {
+            return validateSetting('moderationRules', value) ?? validateModerationRuleTiers(value, await context.settings.get('tiers'));
+        }
+    },
     {
         type: 'paragraph',
         name: 'commentFooter',
@@ -51,6 +141,44 @@ Devvit.addSettings([
             return validateSetting('commentFooter', value);
         }
     },
+    {
+        type: 'paragraph',
+        name: 'commentTemplate',
+        label: 'Comment template',
+        helpText: 'Template for the media reliability report comment, leave empty to use the default one. Available placeholders: {{#sources}}...{{/sources}} (once per source) with {{name}}, {{tier}}, {{label}}, {{twitter}}, {{#socials}}...{{/socials}} (once per social account) with {{platform}}, {{label}}, {{handle}}, {{url}}, {{domain}}, {{type}}, {{typeLabel}}, {{organization}}, {{details}}, {{via}} (e.g. "archived via web.archive.org" for wrapped links) and {{#journalist}}, {{#media}}, {{#aggregator}} sections, as well as {{header}}, {{#warning}}...{{/warning}} with {{warningText}} and {{footer}}. Sources also have {{tierName}} (e.g. "Tier 1"), translated like {{label}} and {{typeLabel}}.',
+        defaultValue: '',
+        scope: 'installation',
+        onValidate: ({ value }) => {
+            return validateSetting('commentTemplate', value);
+        }
+    },
+    {
+        type: 'select',
+        name: 'language',
+        label: 'Report language',
+        helpText: 'Language of the report comment and post flair: the header, tiers, source types and warning. Custom tier labels are shown as written.',
+        options: [
+            { label: 'English', value: 'en' },
+            { label: 'Spanish', value: 'es' },
+            { label: 'Catalan', value: 'ca' },
+        ],
+        defaultValue: ['en'],
+        scope: 'installation',
+        onValidate: ({ value }) => {
+            return validateSetting('language', value);
+        }
+    },
+    {
+        type: 'boolean',
+        name: 'multilingualReport',
+        label: 'Multilingual report',
+        helpText: 'Render the report comment in every available language, starting with the report language.',
+        defaultValue: false,
+        scope: 'installation',
+        onValidate: ({ value }) => {
+            return validateSetting('multilingualReport', value);
+        }
+    },
     {
         type: 'paragraph',
         name: 'ignoredUsers',
@@ -74,8 +202,8 @@ Devvit.addSettings([
     {
         type: 'boolean',
         name: 'analyzeTwitterInBody',
-        label: 'Analyze post body for twitter handles',
-        helpText: 'If enabled, the bot will analyze the post body for twitter handles.',
+        label: 'Analyze post body for social media handles',
+        helpText: 'If enabled, the bot will analyze the post body for social media handles (Twitter, Bluesky, Threads, Instagram, YouTube and Telegram).',
         defaultValue: true,
         onValidate: ({ value }) => {
             return validateSetting('analyzeTwitterInBody', value);
@@ -91,6 +219,137 @@ Devvit.addSettings([
             return validateSetting('analyzeLinksInBody', value);
         }
     },
+    {
+        type: 'number',
+        name: 'matchScoreThreshold',
+        label: 'Match score threshold',
+        helpText: 'Minimum score (0-100) of a match for its source to be included. Domains and handles score 100 (90 in body links), names 70 (90 in the name:, (name) or [name] form), 20% less in the body. Context keywords of a source around its name add 20, negative keywords subtract 50.',
+        defaultValue: 50,
+        scope: 'installation',
+        onValidate: ({ value }) => {
+            return validateSetting('matchScoreThreshold', value);
+        }
+    },
+    {
+        type: 'boolean',
+        name: 'showMatchDetails',
+        label: 'Show match details in the report',
+        helpText: 'If enabled, each source in the report comment will also show where and how it was found in the post.',
+        defaultValue: false,
+        onValidate: ({ value }) => {
+            return validateSetting('showMatchDetails', value);
+        }
+    },
+    {
+        type: 'boolean',
+        name: 'analyzeComments',
+        label: 'Analyze comments for unreliable sources',
+        helpText: 'If enabled, the bot will also check new comments for links (and, following the post body settings above, names and social media handles) of unreliable sources.',
+        defaultValue: false,
+        scope: 'installation',
+        onValidate: async ({ value }, context) => {
+            return validateSetting('analyzeComments', value)
+                ?? validateCommentWarningTier(value, await context.settings.get('commentWarningTier'), await context.settings.get('tiers'));
+        }
+    },
+    {
+        type: 'number',
+        name: 'commentWarningTier',
+        label: 'Comment warning tier',
+        helpText: 'Comments with a source of this tier or a less reliable one are acted upon. Must be in the list of tiers.',
+        defaultValue: 4,
+        scope: 'installation',
+        onValidate: async ({ value }, context) => {
+            return validateSetting('commentWarningTier', value)
+                ?? validateCommentWarningTier(await context.settings.get('analyzeComments'), value, await context.settings.get('tiers'));
+        }
+    },
+    {
+        type: 'select',
+        name: 'commentWarningAction',
+        label: 'Comment warning action',
+        helpText: 'What to do with comments with unreliable sources.',
+        options: [
+            { label: 'Reply with a warning', value: 'reply' },
+            { label: 'Report to moderators', value: 'report' },
+        ],
+        defaultValue: ['reply'],
+        scope: 'installation',
+        onValidate: ({ value }) => {
+            return validateSetting('commentWarningAction', value);
+        }
+    },
+    {
+        type: 'number',
+        name: 'commentWarningLimit',
+        label: 'Comment warnings per thread',
+        helpText: 'Maximum number of comment warnings per post in 24 hours, so that busy threads are not flooded.',
+        defaultValue: 3,
+        scope: 'installation',
+        onValidate: ({ value }) => {
+            return validateSetting('commentWarningLimit', value);
+        }
+    },
+    {
+        type: 'boolean',
+        name: 'lookupCommand',
+        label: 'Answer the source lookup command',
+        helpText: 'If enabled, the bot replies to comments with "!tier name" or "!source name" (a name, @handle or website) on a line of their own with the tier of the source, or suggestions if there is no exact match.',
+        defaultValue: false,
+        scope: 'installation',
+        onValidate: ({ value }) => {
+            return validateSetting('lookupCommand', value);
+        }
+    },
+    {
+        type: 'number',
+        name: 'lookupUserCooldownMinutes',
+        label: 'Source lookup cooldown per user (minutes)',
+        helpText: 'How long a user has to wait between lookups. Set to 0 for no cooldown.',
+        defaultValue: 10,
+        scope: 'installation',
+        onValidate: ({ value }) => {
+            return validateSetting('lookupUserCooldownMinutes', value);
+        }
+    },
+    {
+        type: 'number',
+        name: 'lookupThreadCooldownMinutes',
+        label: 'Source lookup cooldown per thread (minutes)',
+        helpText: 'How long to wait between lookups in the same post. Set to 0 for no cooldown.',
+        defaultValue: 2,
+        scope: 'installation',
+        onValidate: ({ value }) => {
+            return validateSetting('lookupThreadCooldownMinutes', value);
+        }
+    },
+    {
+        type: 'number',
+        name: 'discoveryThreshold',
+        label: 'Unknown source threshold',
+        helpText: 'Domains and social media handles linked in posts that match no source are counted, and once they show up in this many posts they can be reviewed with the "Review unknown sources" action. Set to 0 to stop counting.',
+        defaultValue: 5,
+        scope: 'installation',
+        onValidate: ({ value }) => {
+            return validateSetting('discoveryThreshold', value);
+        }
+    },
+    {
+        type: 'select',
+        name: 'statsDigest',
+        label: 'Weekly digest',
+        helpText: 'Every Monday, post or send to modmail a digest of last week\'s posts: top sources, tier distribution, changes from the week before and the most frequent domains that matched no source.',
+        options: [
+            { label: 'Off', value: 'off' },
+            { label: 'Submit a post', value: 'post' },
+            { label: 'Send to modmail', value: 'modmail' },
+        ],
+        defaultValue: ['off'],
+        scope: 'installation',
+        onValidate: ({ value }) => {
+            return validateSetting('statsDigest', value);
+        }
+    },
     {
         type: 'string',
         name: 'errorReportSubredditName',
@@ -102,60 +361,247 @@ Devvit.addSettings([
             return validateSetting('errorReportSubredditName', value);
         }
     },
+    {
+        type: 'number',
+        name: 'ledgerRetentionDays',
+        label: 'Days to remember processed posts',
+        helpText: 'How long to keep track of processed posts and their report comments. Edits to posts older than this are ignored.',
+        defaultValue: 90,
+        scope: 'installation',
+        onValidate: ({ value }) => {
+            return validateSetting('ledgerRetentionDays', value);
+        }
+    },
 ]);
 
 Devvit.addTrigger({
     event: 'PostSubmit',
     onEvent: async (event, context) => {
         try {
-            if (!event.post?.id || !event.subreddit?.name || !event.author?.name) {
-                throw new Error('PostSubmit event missing post id, subreddit name or author name.');
-            }
+            await handlePostSubmit(event, context);
+        }
+        catch (error) {
+            console.error(error);
 
-            const post = event.post.crosspostParentId
-                ? await context.reddit.getPostById(event.post.crosspostParentId)
-                : await context.reddit.getPostById(event.post.id);
+            if (error instanceof Error && event.post?.id) {
+                await trySendPostErrorModmail(context, event.post.id, error);
+            }
+        }
+    }
+});
 
-            const postData = processPost(post);
-            const settings = await getAllSettings(context);
+Devvit.addTrigger({
+    event: 'PostUpdate',
+    onEvent: async (event, context) => {
+        try {
+            await handlePostUpdate(event, context);
+        }
+        catch (error) {
+            console.error(error);
 
-            if (isIgnoredUser(event.author.name, settings)) {
-                return;
+            if (error instanceof Error && event.post?.id) {
+                await trySendPostErrorModmail(context, event.post.id, error);
             }
+        }
+    }
+});
 
-            const sources = findSourcesInPost(postData, settings);
+Devvit.addTrigger({
+    event: 'CommentSubmit',
+    onEvent: async (event, context) => {
+        try {
+            await handleCommentSubmit(event, context);
+        }
+        catch (error) {
+            console.error(error);
 
-            if (!sources) {
-                return;
+            if (error instanceof Error && event.comment?.postId) {
+                await trySendPostErrorModmail(context, event.comment.postId, error);
             }
+        }
+    }
+});
 
-            await submitComment({ postData, sources, settings, context });
+/**
+ * The digest job runs regardless of the setting (which can change at any
+ * time), and does nothing if it's off.
+ */
+Devvit.addSchedulerJob({
+    name: STATS_DIGEST_JOB,
+    onRun: async (_event, context) => {
+        try {
+            const settings = await getAllSettings(context);
+            await sendStatsDigest({ store: createRedisStatsStore(context), settings, context });
+        }
+        catch (error) {
+            console.error(error);
+        }
+    }
+});
 
+Devvit.addTrigger({
+    events: ['AppInstall', 'AppUpgrade'],
+    onEvent: async (_event, context) => {
+        try {
+            await scheduleStatsDigest(context);
         }
         catch (error) {
             console.error(error);
+        }
+    }
+});
 
-            if (error instanceof Error && event.post?.id) {
-                await trySendPostErrorModmail(context, event.post.id, error);
-            }
+/**
+ * Reports longer than this are sent to modmail instead of being shown in a form.
+ */
+const REPORT_FORM_MAX_LENGTH = 2000;
+
+const reportForm = Devvit.createForm(data => ({
+    title: String(data.title),
+    fields: [
+        {
+            type: 'paragraph',
+            name: 'report',
+            label: 'Report',
+            defaultValue: String(data.report),
+        }
+    ],
+    acceptLabel: 'Close',
+}), () => { });
+
+Devvit.addMenuItem({
+    label: 'Analyze post',
+    description: 'Show what the media reliability app would do with this post',
+    location: 'post',
+    forUserType: 'moderator',
+    onPress: async (event, context) => {
+        try {
+            const post = await context.reddit.getPostById(event.targetId);
+            const postData = processPost(post);
+            const settings = await getAllSettings(context);
+            const results = findSourcesInPost(postData, settings);
+            const report = buildDiagnosticReport({ postData, results, settings });
+
+            await showReport(context, postData.subredditName, 'Media reliability analysis', report);
+        }
+        catch (error) {
+            console.error(error);
+            context.ui.showToast('An error occurred while analyzing the post.');
+        }
+    },
+});
+
+Devvit.addMenuItem({
+    label: 'Check source list',
+    description: 'Show errors and warnings in the media reliability source list',
+    location: 'subreddit',
+    forUserType: 'moderator',
+    onPress: async (_event, context) => {
+        try {
+            const { name } = await context.reddit.getCurrentSubreddit();
+            const settings = await getAllSettings(context);
+
+            await showReport(context, name, 'Media reliability source list check', buildLintReport(settings.sources));
         }
+        catch (error) {
+            console.error(error);
+            context.ui.showToast('An error occurred while checking the source list.');
+        }
+    },
+});
+
+const discoveryForm = Devvit.createForm(data => ({
+    title: 'Review unknown sources',
+    description: 'Domains and social media handles that matched no source. Dismissed and promoted items are not shown again.',
+    fields: [
+        {
+            type: 'select',
+            name: 'item',
+            label: 'Unknown source',
+            options: data.options as { label: string, value: string }[],
+            required: true,
+        },
+        {
+            type: 'select',
+            name: 'action',
+            label: 'Action',
+            options: [
+                { label: 'Promote to a draft source entry', value: 'promoted' },
+                { label: 'Dismiss', value: 'dismissed' },
+            ],
+            defaultValue: ['promoted'],
+            required: true,
+        }
+    ],
+    acceptLabel: 'Apply',
+}), async (event, context) => {
+    try {
+        const [key] = event.values.item as string[];
+        const [action] = event.values.action as DiscoveryReview[];
+        const candidate = parseDiscoveryKey(key);
+
+        if (!candidate) {
+            context.ui.showToast('Unknown item.');
+            return;
+        }
+
+        await setDiscoveryReview(context, key, action);
+
+        if (action === 'dismissed') {
+            context.ui.showToast('The item was dismissed.');
+            return;
+        }
+
+        const { name } = await context.reddit.getCurrentSubreddit();
+        const settings = await getAllSettings(context);
+        const draft = createDraftSource(candidate, settings.sources);
+
+        await showReport(context, name, 'Draft source entry (set its name and tier, then add it to the source list)', JSON.stringify(draft, null, 4));
+    }
+    catch (error) {
+        console.error(error);
+        context.ui.showToast('An error occurred while reviewing the unknown source.');
     }
 });
 
-// Devvit.addMenuItem({
-//     label: 'Debug Post',
-//     location: 'post',
-//     async onPress(event, context) {
-//         const post = await context.reddit.getPostById(event.targetId);
-//         const postData = processPost(post);
+Devvit.addMenuItem({
+    label: 'Review unknown sources',
+    description: 'Dismiss or promote domains and handles that often show up in posts but match no source',
+    location: 'subreddit',
+    forUserType: 'moderator',
+    onPress: async (_event, context) => {
+        try {
+            const settings = await getAllSettings(context);
+            const [counts, reviews] = await Promise.all([
+                getDiscoveryCounts(context),
+                getDiscoveryReviews(context)
+            ]);
+            const queue = buildDiscoveryQueue(counts, reviews, Math.max(settings.discoveryThreshold, 1));
 
-//         const settings = await getAllSettings(context);
+            if (queue.length === 0) {
+                context.ui.showToast('There are no unknown sources to review.');
+                return;
+            }
 
-//         const sources = findSourcesInPost(postData, settings);
+            context.ui.showForm(discoveryForm, {
+                options: queue.map(item => ({ label: describeDiscoveryItem(item), value: item.key }))
+            });
+        }
+        catch (error) {
+            console.error(error);
+            context.ui.showToast('An error occurred while loading the unknown sources.');
+        }
+    },
+});
+
+async function showReport(context: Context, subredditName: string, title: string, report: string) {
+    if (report.length <= REPORT_FORM_MAX_LENGTH) {
+        context.ui.showForm(reportForm, { title, report });
+        return;
+    }
 
-//         console.log('found the following sources:');
-//         console.log(sources);
-//     },
-// });
+    await sendModmail(context, subredditName, title, report);
+    context.ui.showToast('The report was sent to modmail.');
+}
 
 export default Devvit;
\ No newline at end of file
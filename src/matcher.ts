@@ -1,228 +1,596 @@
-import type { AppSettings, PostData, Source } from './types.js';
+import type { Automaton } from './automaton.js';
+import { createAutomaton, searchAutomaton } from './automaton.js';
+import { hashString } from './helpers.js';
+import { resolveSource } from './organizations.js';
+import { getTierOrder } from './tiers.js';
+import { compareDomainRules, isPathInDomainRule } from './domains.js';
+import { describeWrapper } from './links.js';
+import { compilePattern, findPatternMatches } from './patterns.js';
+import { getHandleFromPathname, getHandleFromUrl, getPlatformByHostname } from './platforms.js';
+import type { MatchContext } from './scoring.js';
+import { CONTEXT_WINDOW, getMatchScore, isContextRule, isScoreIncluded } from './scoring.js';
+import type { AppSettings, CommentData, DomainRule, Link, Match, MatchLocation, MatchRule, Platform, PostData, Source, SourceAlias, SourceResult } from './types.js';
 
+type TextPattern =
+    { type: 'name', index: number, nameIsCommon: boolean } |
+    { type: 'handle', index: number, platform: Platform };
+
+type TextLocation = Extract<MatchLocation, 'title' | 'body'>;
+
+/**
+ * NB: The context is only looked up for names found in text (see getMatchContext).
+ */
+type Hit = {
+    index: number;
+    match: Match;
+    context: MatchContext | null;
+};
+
+/**
+ * Everything needed to match posts against a source list, compiled once:
+ *
+ * automaton - all names, aliases and social handles
+ * domains - source hostname => domain rules (looked up by hostname suffix)
+ * handles - platform:handle => source indices (looked up by URL pathname)
+ * customPatterns - compiled custom patterns of the sources that have one
+ * version - hash of the source list, to tell which list a post was processed with
+ */
+export type SourceMatcher = {
+    sources: Source[];
+    version: string;
+    automaton: Automaton<TextPattern>;
+    domains: Map<string, DomainEntry[]>;
+    handles: Map<string, number[]>;
+    customPatterns: CustomPatternEntry[];
+};
+
+type DomainEntry = {
+    index: number;
+    rule: DomainRule;
+};
+
+type CustomPatternEntry = {
+    index: number;
+    regex: RegExp;
+};
+
+const matcherCache = new WeakMap<Source[], SourceMatcher>();
+
+/**
+ * Find all sources in a post. Each result carries every match that
+ * led to it, so it's always possible to tell why a source was picked.
+ */
 export function findSourcesInPost(post: PostData, settings: AppSettings) {
-    const list = new Map<string, Source>();
+    const matcher = getSourceMatcher(settings.sources);
+    const list = new Map<string, SourceResult>();
 
-    findMatchesInTitle(post.titleNormalized, settings.sources, list);
+    findMatchesInTitle(post.titleNormalized, settings, matcher, list);
 
     if (post.url) {
-        findMatchesInUrl(post.url, settings.sources, list);
+        findMatchesInUrl(post.url, settings, matcher, list);
     }
 
     if (post.links && settings.analyzeLinksInBody) {
-        findMatchesInLinks(post.links, settings.sources, list);
+        findMatchesInLinks(post.links, settings, matcher, list);
     }
 
     if (post.bodyNormalized && (settings.analyzeNamesInBody || settings.analyzeTwitterInBody)) {
-        findMatchesInBody(post.bodyNormalized, settings, list);
+        findMatchesInBody(post.bodyNormalized, settings, matcher, list);
+    }
+
+    return getSortedResults(list, settings);
+}
+
+/**
+ * Find all sources in a comment, using the same matchers as the post body.
+ *
+ * NB: Links are always analyzed, they're the reason comments are scanned
+ * in the first place, names and handles follow the post body settings.
+ */
+export function findSourcesInComment(comment: CommentData, settings: AppSettings) {
+    const matcher = getSourceMatcher(settings.sources);
+    const list = new Map<string, SourceResult>();
+
+    if (comment.links) {
+        findMatchesInLinks(comment.links, settings, matcher, list);
+    }
+
+    if (settings.analyzeNamesInBody || settings.analyzeTwitterInBody) {
+        findMatchesInBody(comment.bodyNormalized, settings, matcher, list);
     }
 
+    return getSortedResults(list, settings);
+}
+
+/**
+ * Find the sources of a single link, matched like a post URL
+ * (e.g. for looking up a source by its website).
+ */
+export function findSourcesInLink(link: Link, settings: AppSettings) {
+    const matcher = getSourceMatcher(settings.sources);
+    const list = new Map<string, SourceResult>();
+
+    findMatchesInUrl(link, settings, matcher, list);
+
+    return getSortedResults(list, settings);
+}
+
+/**
+ * Sort results from most to least reliable, after resolving
+ * the tiers inherited from organizations (see resolveSource).
+ */
+function getSortedResults(list: Map<string, SourceResult>, settings: AppSettings) {
     const result = Array
         .from(list.values())
-        .sort((a, b) => (a.tier ?? 6) - (b.tier ?? 6));
+        .map(({ source, matches, score }) => ({ source: resolveSource(source, settings), matches, score }))
+        .sort((a, b) => getTierOrder(settings.tiers, a.source.tier) - getTierOrder(settings.tiers, b.source.tier));
 
     return result.length > 0 ? result : null;
 }
 
-function findMatchesInTitle(titleNormalized: string, sources: Source[], list: Map<string, Source>) {
-    for (const source of sources) {
-        if (isNameInTitle({ titleNormalized, source })) {
-            list.set(source.id, source);
-        }
-        else if (isTwitterInTitle({ titleNormalized, source })) {
-            list.set(source.id, source);
-        }
+/**
+ * Get the compiled matcher for a source list. Matchers are cached by the
+ * list reference, so as long as the settings don't change (see getAllSettings),
+ * the list is compiled only once.
+ */
+export function getSourceMatcher(sources: Source[]) {
+    let matcher = matcherCache.get(sources);
+
+    if (!matcher) {
+        matcher = compileSourceMatcher(sources);
+        matcherCache.set(sources, matcher);
     }
+
+    return matcher;
 }
 
-function findMatchesInUrl(url: URL, sources: Source[], list: Map<string, Source>) {
-    for (const source of sources) {
-        if (isTwitterInUrl({ url, source })) {
-            list.set(source.id, source);
+export function compileSourceMatcher(sources: Source[]): SourceMatcher {
+    const patterns: { text: string, value: TextPattern }[] = [];
+    const domains = new Map<string, DomainEntry[]>();
+    const handles = new Map<string, number[]>();
+    const customPatterns: CustomPatternEntry[] = [];
+
+    sources.forEach((source, index) => {
+        for (const { nameNormalized, nameIsCommon } of getSourceNames(source)) {
+            patterns.push({ text: nameNormalized, value: { type: 'name', index, nameIsCommon } });
         }
-        else if (isDomainInUrl({ url, source })) {
-            list.set(source.id, source);
+
+        const texts = new Set<string>();
+
+        for (const { platform, handleNormalized } of source.handles) {
+            // a handle used on several platforms is only matched once in text, by the first one
+            if (!texts.has(handleNormalized)) {
+                patterns.push({ text: handleNormalized, value: { type: 'handle', index, platform } });
+                texts.add(handleNormalized);
+            }
+
+            appendToMap(handles, getHandleKey(platform, handleNormalized), index);
         }
-    }
-}
 
-function findMatchesInLinks(urls: URL[], sources: Source[], list: Map<string, Source>) {
-    for (const source of sources) {
-        if (isTwitterInLinks({ urls, source })) {
-            list.set(source.id, source);
+        for (const rule of source.domainRules) {
+            appendToMap(domains, rule.hostname, { index, rule });
         }
-        else if (isDomainInLinks({ urls, source })) {
-            list.set(source.id, source);
+
+        if (source.pattern) {
+            customPatterns.push({ index, regex: compilePattern(source.pattern) });
         }
+    });
+
+    return {
+        sources,
+        version: hashString(JSON.stringify(sources)),
+        automaton: createAutomaton(patterns),
+        domains,
+        handles,
+        customPatterns
+    };
+}
+
+function getHandleKey(platform: Platform, handle: string) {
+    return `${platform}:${handle}`;
+}
+
+function appendToMap<T>(map: Map<string, T[]>, key: string, value: T) {
+    const values = map.get(key);
+
+    if (values) {
+        values.push(value);
+    }
+    else {
+        map.set(key, [value]);
     }
 }
 
-function findMatchesInBody(bodyNormalized: string, settings: AppSettings, list: Map<string, Source>) {
-    for (const source of settings.sources) {
-        if (settings.analyzeNamesInBody && isNameInBody({ bodyNormalized, source })) {
-            list.set(source.id, source);
+/**
+ * Add matched sources to the list in the same order as they appear in the
+ * source list, so that the result does not depend on where in the text
+ * the match was found. Identical matches (e.g. the same name mentioned
+ * twice in the body) are only recorded once. Matches that score below
+ * the threshold are left out, the score of a source is its best match.
+ */
+function addToList(hits: Hit[], matcher: SourceMatcher, list: Map<string, SourceResult>, settings: AppSettings) {
+    const sorted = [...hits].sort((a, b) => a.index - b.index);
+
+    for (const { index, match, context } of sorted) {
+        const source = matcher.sources[index];
+        const score = getMatchScore(source, match, context);
+
+        if (!isScoreIncluded(score, settings.matchScoreThreshold)) {
+            continue;
         }
-        else if (settings.analyzeTwitterInBody && isTwitterInBody({ bodyNormalized, source })) {
-            list.set(source.id, source);
+
+        const result = list.get(source.id);
+        const matches = result?.matches ?? [];
+
+        if (!matches.some(({ location, rule, text }) => location === match.location && rule === match.rule && text === match.text)) {
+            matches.push(match);
         }
+
+        list.set(source.id, { source, matches, score: Math.max(result?.score ?? 0, score) });
     }
 }
 
+function findMatchesInTitle(titleNormalized: string, settings: AppSettings, matcher: SourceMatcher, list: Map<string, SourceResult>) {
+    const { names, handles } = scanText(matcher, titleNormalized, 'title');
+
+    addToList([...names, ...handles], matcher, list, settings);
+}
+
+function findMatchesInUrl({ target, wrapper }: Link, settings: AppSettings, matcher: SourceMatcher, list: Map<string, SourceResult>) {
+    addToList(withWrapper([
+        ...findHandlesInUrl(matcher, target, 'url'),
+        ...findDomainsInUrl(matcher, target, 'url')
+    ], wrapper), matcher, list, settings);
+}
+
+function findMatchesInLinks(links: Link[], settings: AppSettings, matcher: SourceMatcher, list: Map<string, SourceResult>) {
+    addToList(links.flatMap(({ target, wrapper }) => withWrapper([
+        ...findHandlesInLink(matcher, target, 'link'),
+        ...findDomainsInUrl(matcher, target, 'link')
+    ], wrapper)), matcher, list, settings);
+}
+
 /**
- * Check if source.nameNormalized matches against a title. Match whole word (name) only.  
- * If source.nameIsCommon, only match these patterns:  
- * 
- * name: rest of the title  
- * title which includes (name)  
- * title which includes [name]  
- * 
- * NB: Double escape template literal RegExp
+ * Record the wrapper of the link on its matches, so that the report can mention it.
  */
-function isNameInTitle({ titleNormalized, source }: { titleNormalized: string, source: Source }) {
-    if (source.nameIsCommon) {
-        return new RegExp(`^${source.nameNormalized}:|(\\(|\\[)${source.nameNormalized}(\\)|\\])`, 'i').test(titleNormalized);
+function withWrapper(hits: Hit[], wrapper: Link['wrapper']) {
+    return wrapper
+        ? hits.map(hit => ({ ...hit, match: { ...hit.match, wrapper } }))
+        : hits;
+}
+
+function findMatchesInBody(bodyNormalized: string, settings: AppSettings, matcher: SourceMatcher, list: Map<string, SourceResult>) {
+    const { names, handles } = scanText(matcher, bodyNormalized, 'body');
+
+    addToList([
+        ...(settings.analyzeNamesInBody ? names : []),
+        ...(settings.analyzeTwitterInBody ? handles : [])
+    ], matcher, list, settings);
+}
+
+function createHit(index: number, location: MatchLocation, rule: MatchRule, text: string, context: MatchContext | null = null): Hit {
+    return { index, match: { location, rule, text }, context };
+}
+
+/**
+ * The canonical name of a source followed by all of its aliases. Each entry
+ * carries its own nameIsCommon flag, so matchers should treat them individually.
+ */
+function getSourceNames(source: Source): Pick<SourceAlias, 'nameNormalized' | 'nameIsCommon'>[] {
+    return [
+        { nameNormalized: source.nameNormalized, nameIsCommon: source.nameIsCommon },
+        ...source.aliases
+    ];
+}
+
+/**
+ * Letters and digits of any script, unlike \w which is ASCII only.
+ *
+ * NB: Only tested at the edges of a match, so the unicode property
+ * escapes don't slow down scanning the text.
+ */
+const WORD_CHAR_REGEX = /^[\p{L}\p{M}\p{N}_]$/u;
+
+function isWordChar(char: string | undefined) {
+    return char !== undefined && WORD_CHAR_REGEX.test(char);
+}
+
+/**
+ * The character (code point) starting at an index of the text.
+ */
+function getCharAt(text: string, index: number) {
+    const codePoint = text.codePointAt(index);
+
+    return codePoint === undefined ? undefined : String.fromCodePoint(codePoint);
+}
+
+/**
+ * The character (code point) ending right before an index of the text.
+ *
+ * NB: Characters outside the BMP (e.g. math letters or rare CJK) take
+ * two code units, so a low surrogate is read together with its high one.
+ */
+function getCharBefore(text: string, index: number) {
+    if (index <= 0) {
+        return undefined;
     }
 
-    return new RegExp(`\\b${source.nameNormalized}\\b`, 'i').test(titleNormalized);
+    const start = index >= 2 && /[\uDC00-\uDFFF]/.test(text[index - 1]) && /[\uD800-\uDBFF]/.test(text[index - 2])
+        ? index - 2
+        : index - 1;
+
+    return getCharAt(text, start);
 }
 
 /**
- * Check if source.twitterNormalized matches against a title.  
- * Only match the following patterns:  
- * 
- * twitter_handle: rest of the title  
- * @twitter_handle: rest of the title  
- * title which includes (twitter_handle)  
- * title which includes [twitter_handle]  
- * title which includes @twitter_handle  
- * 
- * NB: Double escape template literal RegExp
+ * Same as RegExp \b assertion, but unicode aware, so names that start or
+ * end with a non-ASCII letter (e.g. in Cyrillic or Greek) match whole words.
  */
-function isTwitterInTitle({ titleNormalized, source }: { titleNormalized: string, source: Source }) {
-    if (!source.twitterNormalized) {
+function isWordBoundary(text: string, index: number) {
+    return isWordChar(getCharBefore(text, index)) !== isWordChar(getCharAt(text, index));
+}
+
+/**
+ * Check for a word boundary at the start or end of a match. Names that
+ * begin or end with punctuation (e.g. "Sport+" or "AS (Diario)") can't
+ * have one there, so only edges with a word character are checked.
+ */
+function isWordEdge(text: string, index: number, edge: string | undefined) {
+    return !isWordChar(edge) || isWordBoundary(text, index);
+}
+
+function isWholeWord(text: string, start: number, end: number) {
+    return isWordEdge(text, start, getCharAt(text, start)) && isWordEdge(text, end, getCharBefore(text, end));
+}
+
+/**
+ * Check if any of the keywords is found as a whole word within CONTEXT_WINDOW
+ * characters before or after a match, not counting the match itself.
+ */
+function hasKeywordAround(keywords: string[], text: string, start: number, end: number) {
+    const from = Math.max(0, start - CONTEXT_WINDOW);
+    const to = end + CONTEXT_WINDOW;
+
+    return keywords.some(keyword => {
+        if (keyword === '') {
+            return false;
+        }
+
+        for (let i = text.indexOf(keyword, from); i !== -1 && i + keyword.length <= to; i = text.indexOf(keyword, i + 1)) {
+            if ((i + keyword.length <= start || i >= end) && isWholeWord(text, i, i + keyword.length)) {
+                return true;
+            }
+        }
+
         return false;
+    });
+}
+
+/**
+ * Keywords around a match, for the rules that depend on them (see isContextRule).
+ */
+function getMatchContext(source: Source, rule: MatchRule, text: string, start: number, end: number): MatchContext | null {
+    if (!isContextRule(rule)) {
+        return null;
     }
 
-    return new RegExp(`^@?${source.twitterNormalized}:|@${source.twitterNormalized}\\b|(\\(|\\[)${source.twitterNormalized}(\\)|\\])`, 'i').test(titleNormalized);
+    return {
+        context: hasKeywordAround(source.contextKeywordsNormalized, text, start, end),
+        negative: hasKeywordAround(source.negativeKeywordsNormalized, text, start, end),
+    };
 }
 
 /**
- * Check if source.twitterNormalized matches against URL pathname.  
- * Only match the following patterns:  
- * 
- * /twitter_handle  
- * /twitter_handle/  
- * /twitter_handle/status/12345  
- * 
- * NB: URL pathname always starts with forward slash  
- * NB: Double escape template literal RegExp
+ * Check if the match is wrapped in (match) or [match], brackets can be mixed.
  */
-function isTwitterInUrl({ url, source }: { url: URL, source: Source }) {
-    if (!source.twitterNormalized) {
-        return false;
+function isBracketed(text: string, start: number, end: number) {
+    return ['(', '['].includes(text[start - 1]) && [')', ']'].includes(text[end]);
+}
+
+/**
+ * Find all names and social handles in a normalized title or body in a single pass,
+ * then the custom patterns (which count as names).
+ */
+function scanText(matcher: SourceMatcher, text: string, location: TextLocation) {
+    const names: Hit[] = [];
+    const handles: Hit[] = [];
+
+    for (const { value, start, end } of searchAutomaton(matcher.automaton, text)) {
+        if (value.type === 'name' && isNameMatch({ text, start, end, nameIsCommon: value.nameIsCommon, location })) {
+            const rule = value.nameIsCommon ? 'commonName' : 'name';
+            const context = getMatchContext(matcher.sources[value.index], rule, text, start, end);
+            names.push(createHit(value.index, location, rule, text.slice(start, end), context));
+        }
+        else if (value.type === 'handle' && isHandleMatch({ text, start, end })) {
+            handles.push(createHit(value.index, location, value.platform, text.slice(start, end)));
+        }
+    }
+
+    for (const { index, regex } of matcher.customPatterns) {
+        for (const { text: match, start, end } of findPatternMatches(regex, text)) {
+            names.push(createHit(index, location, 'pattern', match, getMatchContext(matcher.sources[index], 'pattern', text, start, end)));
+        }
     }
 
-    return ['x.com', 'twitter.com'].includes(url.hostname.toLowerCase())
-        ? new RegExp(`^\\/${source.twitterNormalized}(\\/|\\s|$)`, 'i').test(url.pathname)
-        : false;
+    return { names, handles };
 }
 
 /**
- * Check if source.domains includes URL hostname (domain).
- * Only match the following patterns:
- * 
- * example.com
- * www.example.com
- * sub1.example.com
- * sub1.sub2.example.com
- * 
- * NB: The URL constructor does NOT strip out www. prefix if present
- * NB: Escape periods in domain names
- * NB: Double escape template literal RegExp
+ * Check if a name occurrence in the title or body counts as a match. Match whole word (name) only.
+ * If nameIsCommon (set per name and alias), only match these patterns:
+ *
+ * title: rest of the title
+ * title which includes (name)
+ * title which includes [name]
+ *
+ * name: rest of the body (anywhere in the body)
+ * body which includes (name)
+ * body which includes [name]
  */
-function isDomainInUrl({ url, source }: { url: URL, source: Source }) {
-    return source.domains?.some(domain => new RegExp(`^(.*\\.)?${domain.replace(/\./g, '\\.')}$`).test(url.hostname));
+function isNameMatch({ text, start, end, nameIsCommon, location }: { text: string, start: number, end: number, nameIsCommon: boolean, location: TextLocation }) {
+    if (nameIsCommon) {
+        return (text[end] === ':' && (location === 'body' || start === 0)) || isBracketed(text, start, end);
+    }
+
+    return isWholeWord(text, start, end);
 }
 
 /**
- * Check if source.twitterNormalized matches against URL list pathnames.
- * Only match the following patterns:
- * 
+ * Check if a handle occurrence in the title or body counts as a match.
+ * Only match the following patterns (the same for every platform):
+ *
+ * handle: rest of the text
+ * @handle: rest of the text
+ * text which includes (handle)
+ * text which includes [handle]
+ * text which includes @handle
+ */
+function isHandleMatch({ text, start, end }: { text: string, start: number, end: number }) {
+    if (text[end] === ':' && (start === 0 || (start === 1 && text[0] === '@'))) {
+        return true;
+    }
+
+    if (text[start - 1] === '@' && isWordEdge(text, end, getCharBefore(text, end))) {
+        return true;
+    }
+
+    return isBracketed(text, start, end);
+}
+
+function findHandle(matcher: SourceMatcher, platform: Platform, handle: string, location: MatchLocation) {
+    const indices = matcher.handles.get(getHandleKey(platform, handle.toLowerCase())) ?? [];
+
+    return indices.map(index => createHit(index, location, platform, handle));
+}
+
+/**
+ * Find sources whose handle matches a profile or post URL of its platform
+ * (see PLATFORMS for the URL shapes), e.g. for twitter:
+ *
  * /twitter_handle
  * /twitter_handle/
  * /twitter_handle/status/12345
- * 
- * NB: Double escape template literal RegExp
  */
-function isTwitterInLinks({ urls, source }: { urls: URL[], source: Source }) {
-    if (!source.twitterNormalized) {
-        return false;
+function findHandlesInUrl(matcher: SourceMatcher, url: URL, location: MatchLocation) {
+    const found = getHandleFromUrl(url);
+
+    return found ? findHandle(matcher, found.platform, found.handle, location) : [];
+}
+
+/**
+ * NB: Unlike the post URL, body links of unknown hostnames are matched against
+ * twitter handles by pathname only, as they always have been.
+ */
+function findHandlesInLink(matcher: SourceMatcher, url: URL, location: MatchLocation) {
+    if (getPlatformByHostname(url.hostname)) {
+        return findHandlesInUrl(matcher, url, location);
     }
 
-    const regex = new RegExp(`^\/${source.twitterNormalized}(\\/|\\s|$)`, 'i');
+    const handle = getHandleFromPathname('twitter', url.pathname);
 
-    return urls.some(url => regex.test(url.pathname));
+    return handle ? findHandle(matcher, 'twitter', handle, location) : [];
 }
 
 /**
- * Check if source.domain includes URL hostnames (domains) list.
+ * Find sources whose domains include URL hostname (domain).
  * Only match the following patterns:
- * 
+ *
  * example.com
  * www.example.com
  * sub1.example.com
  * sub1.sub2.example.com
- * 
+ *
+ * Domains with a path prefix (e.g. example.com/blogs) only match URLs under
+ * that path, and none of them match URLs under their exclusions. When several
+ * sources share a host, only the most specific rules win (see compareDomainRules).
+ *
  * NB: The URL constructor does NOT strip out www. prefix if present
- * NB: Escape periods in domain names
- * NB: Double escape template literal RegExp
  */
-function isDomainInLinks({ urls, source }: { urls: URL[], source: Source }) {
-    if (!source.domains || source.domains.length < 1) {
-        return false;
+function findDomainsInUrl(matcher: SourceMatcher, url: URL, location: MatchLocation) {
+    const labels = url.hostname.split('.');
+    const entries: DomainEntry[] = [];
+
+    for (let i = 0; i < labels.length; i++) {
+        const candidates = matcher.domains.get(labels.slice(i).join('.')) ?? [];
+        entries.push(...candidates.filter(({ rule }) => isPathInDomainRule(rule, url.pathname)));
     }
 
-    return urls.some(url => source.domains?.some(domain => new RegExp(`^(.*\\.)?${domain.replace(/\./g, '\\.')}$`).test(url.hostname)));
+    const [best] = entries.map(({ rule }) => rule).sort(compareDomainRules);
+
+    return entries
+        .filter(({ rule }) => compareDomainRules(rule, best) === 0)
+        .map(({ index, rule }) => createHit(index, location, 'domain', `${url.hostname}${rule.path ?? ''}`));
 }
 
+const locationLabels: Record<MatchLocation, string> = {
+    title: 'title',
+    url: 'post URL',
+    link: 'body link',
+    body: 'body text'
+};
+
+const ruleLabels: Record<MatchRule, string> = {
+    name: 'name',
+    commonName: 'name',
+    domain: 'domain',
+    pattern: 'pattern',
+    twitter: 'twitter handle',
+    bluesky: 'bluesky handle',
+    threads: 'threads handle',
+    instagram: 'instagram handle',
+    youtube: 'youtube handle',
+    telegram: 'telegram handle'
+};
+
 /**
- * Check if source.nameNormalized matches against a body. Match whole word (name) only.  
- * If source.nameIsCommon, only match these patterns:  
- * 
- * name: rest of the body  
- * body which includes (name)  
- * body which includes [name]  
- * 
- * NB: Double escape template literal RegExp  
- * NB: Use "g" (global) flag to match all occurrences in the body
+ * Human readable description of a match, e.g. 'domain "marca.com" in post URL'
+ * or 'domain "marca.com" in post URL (archived via web.archive.org)'.
  */
-function isNameInBody({ bodyNormalized, source }: { bodyNormalized: string, source: Source }) {
-    if (source.nameIsCommon) {
-        return new RegExp(`${source.nameNormalized}:|(\\[|\\()${source.nameNormalized}(\\]|\\))`, 'gi').test(bodyNormalized);
-    }
+export function describeMatch({ location, rule, text, wrapper }: Match) {
+    const description = `${ruleLabels[rule]} "${text}" in ${locationLabels[location]}`;
 
-    return new RegExp(`\\b${source.nameNormalized}\\b`, 'gi').test(bodyNormalized);
+    return wrapper ? `${description} (${describeWrapper(wrapper)})` : description;
 }
 
 /**
- * Check if source.twitterNormalized matches against a body.  
- * Only match the following patterns:  
- * 
- * twitter_handle: rest of the body  
- * @twitter_handle: rest of the body  
- * body which includes (twitter_handle)  
- * body which includes [twitter_handle]  
- * body which includes @twitter_handle  
- * 
- * NB: Double escape template literal RegExp  
- * NB: Use "g" (global) flag to match all occurrences in the body
+ * The following single source helpers are kept for testing the compiled matcher
+ * against each individual rule.
  */
-function isTwitterInBody({ bodyNormalized, source }: { bodyNormalized: string, source: Source }) {
-    if (!source.twitterNormalized) {
-        return false;
-    }
+function isNameInTitle({ titleNormalized, source }: { titleNormalized: string, source: Source }) {
+    return scanText(compileSourceMatcher([source]), titleNormalized, 'title').names.length > 0;
+}
+
+function isTwitterInTitle({ titleNormalized, source }: { titleNormalized: string, source: Source }) {
+    return scanText(compileSourceMatcher([source]), titleNormalized, 'title').handles.length > 0;
+}
+
+function isTwitterInUrl({ url, source }: { url: URL, source: Source }) {
+    return findHandlesInUrl(compileSourceMatcher([source]), url, 'url').length > 0;
+}
+
+function isDomainInUrl({ url, source }: { url: URL, source: Source }) {
+    return findDomainsInUrl(compileSourceMatcher([source]), url, 'url').length > 0;
+}
 
-    return new RegExp(`^@?${source.twitterNormalized}:|@${source.twitterNormalized}\\b|(\\(|\\[)${source.twitterNormalized}(\\)|\\])`, 'gi').test(bodyNormalized);
+/**
+ * NB: Unlike isTwitterInUrl, hostname is not checked for body links (see findHandlesInLink).
+ */
+function isTwitterInLinks({ urls, source }: { urls: URL[], source: Source }) {
+    const matcher = compileSourceMatcher([source]);
+    return urls.some(url => findHandlesInLink(matcher, url, 'link').length > 0);
+}
+
+function isDomainInLinks({ urls, source }: { urls: URL[], source: Source }) {
+    const matcher = compileSourceMatcher([source]);
+    return urls.some(url => findDomainsInUrl(matcher, url, 'link').length > 0);
+}
+
+function isNameInBody({ bodyNormalized, source }: { bodyNormalized: string, source: Source }) {
+    return scanText(compileSourceMatcher([source]), bodyNormalized, 'body').names.length > 0;
+}
+
+function isTwitterInBody({ bodyNormalized, source }: { bodyNormalized: string, source: Source }) {
+    return scanText(compileSourceMatcher([source]), bodyNormalized, 'body').handles.length > 0;
 }
 
 export const __test__ = {
@@ -234,4 +602,4 @@ export const __test__ = {
     isDomainInLinks,
     isNameInBody,
     isTwitterInBody
-};
\ No newline at end of file
+};
@@ -0,0 +1,149 @@
+import type { TriggerContext } from '@devvit/public-api';
+import { sendModmail } from './helpers.js';
+import { getTierOrder } from './tiers.js';
+import type { AppSettings, ModerationAction, ModerationRule, Source, SourceResult, Tier } from './types.js';
+
+/**
+ * A moderation rule and the sources in the post that triggered it.
+ */
+export type TriggeredRule = {
+    rule: ModerationRule;
+    sources: Source[];
+};
+
+function isTierInRange(tiers: Tier[], tier: number | null, rule: ModerationRule) {
+    if (rule.minTier === null && rule.maxTier === null) {
+        return true;
+    }
+
+    if (tier === null) {
+        return false;
+    }
+
+    const order = getTierOrder(tiers, tier);
+
+    return (rule.minTier === null || order >= getTierOrder(tiers, rule.minTier))
+        && (rule.maxTier === null || order <= getTierOrder(tiers, rule.maxTier));
+}
+
+function isResultMatchingRule({ source, matches }: SourceResult, rule: ModerationRule, tiers: Tier[]) {
+    return isTierInRange(tiers, source.tier, rule)
+        && (!rule.types || rule.types.includes(source.type))
+        && (!rule.sourceIds || rule.sourceIds.includes(source.id))
+        && (!rule.locations || matches.some(({ location }) => rule.locations?.includes(location)));
+}
+
+/**
+ * Find the moderation rules triggered by the sources of a post, in the order
+ * they are configured. This doesn't act on anything (see applyModerationRules).
+ */
+export function evaluateModerationRules(results: SourceResult[] | null, settings: AppSettings): TriggeredRule[] {
+    if (!results) {
+        return [];
+    }
+
+    return settings.moderationRules
+        .map(rule => {
+            if (rule.unlessTypes && results.some(({ source }) => rule.unlessTypes?.includes(source.type))) {
+                return { rule, sources: [] };
+            }
+
+            const sources = results
+                .filter(result => isResultMatchingRule(result, rule, settings.tiers))
+                .map(({ source }) => source);
+
+            return { rule, sources };
+        })
+        .filter(({ sources }) => sources.length > 0);
+}
+
+function getRuleReason({ rule }: TriggeredRule) {
+    return rule.reason ?? `Media reliability rule "${rule.name}"`;
+}
+
+/**
+ * Each action is taken only once, for the first rule that asks for it.
+ */
+export function getModerationActions(triggered: TriggeredRule[]) {
+    const actions = new Map<ModerationAction, TriggeredRule>();
+
+    for (const item of triggered) {
+        for (const action of item.rule.actions) {
+            if (!actions.has(action)) {
+                actions.set(action, item);
+            }
+        }
+    }
+
+    return actions;
+}
+
+type ApplyModerationRulesProps = {
+    /**
+     * The post that triggered the rules. For crossposts, that's the
+     * crosspost and not the parent post the sources were found in.
+     */
+    postId: string;
+    subredditName: string;
+    triggered: TriggeredRule[];
+    context: TriggerContext;
+};
+
+/**
+ * Take the actions of the triggered rules on the post.
+ *
+ * NB: "filter" removes the post and reports it, so that it's hidden from
+ * users but still shows up in the mod queue, which is as close as the
+ * API gets to AutoModerator's filter.
+ */
+export async function applyModerationRules({ postId, subredditName, triggered, context }: ApplyModerationRulesProps) {
+    const actions = getModerationActions(triggered);
+
+    if (actions.size === 0) {
+        return;
+    }
+
+    const post = await context.reddit.getPostById(postId);
+
+    for (const [action, item] of actions) {
+        const reason = getRuleReason(item);
+
+        switch (action) {
+            case 'remove': {
+                await context.reddit.remove(postId, false);
+
+                if (item.rule.reason) {
+                    const comment = await context.reddit.submitComment({ id: postId, text: item.rule.reason });
+                    await comment.distinguish(true);
+                }
+
+                break;
+            }
+            case 'filter': {
+                await context.reddit.remove(postId, false);
+                await context.reddit.report(post, { reason });
+                break;
+            }
+            case 'report': {
+                await context.reddit.report(post, { reason });
+                break;
+            }
+            case 'lock': {
+                await post.lock();
+                break;
+            }
+            case 'modmail': {
+                const sources = item.sources.map(source => `- ${source.name} (id: \`${source.id}\`)`).join('\n');
+
+                await sendModmail(
+                    context,
+                    subredditName,
+                    `Media reliability rule "${item.rule.name}"`,
+                    `${reason}\n\nPost: https://redd.it/${postId.replace(/^t3_/, '')}\n\nSources:\n\n${sources}`
+                );
+
+                break;
+            }
+        }
+    }
+}
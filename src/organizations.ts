@@ -0,0 +1,50 @@
+import type { AppSettings, Source } from './types.js';
+
+/**
+ * Sources by id, cached by the list reference (see getSourceMatcher).
+ */
+const sourceIdCache = new WeakMap<Source[], Map<string, Source>>();
+
+export function getSourceById(sources: Source[], id: string) {
+    let ids = sourceIdCache.get(sources);
+
+    if (!ids) {
+        ids = new Map();
+
+        for (const source of sources) {
+            if (!ids.has(source.id)) {
+                ids.set(source.id, source);
+            }
+        }
+
+        sourceIdCache.set(sources, ids);
+    }
+
+    return ids.get(id) ?? null;
+}
+
+/**
+ * The source (usually a media outlet) referenced by the organization
+ * field of another source (usually a journalist).
+ */
+export function getOrganization(source: Source, sources: Source[]) {
+    return source.organization !== null ? getSourceById(sources, source.organization) : null;
+}
+
+/**
+ * Sources without a tier of their own get the tier of their organization,
+ * if that's enabled in the settings.
+ *
+ * NB: Only one level deep, the organization's own organization is not used.
+ */
+export function resolveSource(source: Source, settings: AppSettings): Source {
+    if (source.tier !== null || !settings.inheritOrganizationTier) {
+        return source;
+    }
+
+    const organization = getOrganization(source, settings.sources);
+
+    return organization?.tier !== null && organization?.tier !== undefined
+        ? { ...source, tier: organization.tier }
+        : source;
+}
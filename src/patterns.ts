@@ -0,0 +1,156 @@
+import type { ValidationResult } from './types.js';
+
+/**
+ * Longest custom pattern allowed, patterns are for the odd edge case
+ * that names and aliases can't express, not for whole lists of names.
+ */
+const MAX_PATTERN_LENGTH = 200;
+
+/**
+ * Quantifier at the start of a string: ?, *, +, {n}, {n,} or {n,m}.
+ */
+const QUANTIFIER_REGEX = /^(?:[?*+]|\{\d+(?:,\d*)?\})/;
+
+/**
+ * The special group syntax after an opening parenthesis (non-capturing,
+ * lookarounds and named groups), which isn't a quantifier.
+ */
+const GROUP_PREFIX_REGEX = /^\?(?:[:=!]|<[=!]|<[^>]*>)/;
+
+/**
+ * Escape a string to be used literally in a regular expression.
+ *
+ * @see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Guide/Regular_expressions#escaping
+ */
+export function escapeRegExp(text: string) {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Compile the custom pattern of a source. Patterns are matched against the
+ * normalized text of the title and body (see normalizeText), case insensitive.
+ */
+export function compilePattern(pattern: string) {
+    return new RegExp(pattern, 'giu');
+}
+
+/**
+ * Read the quantifier at an index of a pattern, if any. It repeats if it
+ * can match its atom more than once (so not ?, {0,1} or {1}).
+ */
+function readQuantifier(pattern: string, index: number) {
+    const match = QUANTIFIER_REGEX.exec(pattern.slice(index));
+
+    if (!match) {
+        return null;
+    }
+
+    const [text] = match;
+
+    if (!text.startsWith('{')) {
+        return { length: text.length, repeats: text !== '?' };
+    }
+
+    const [min, max = min] = text.slice(1, -1).split(',');
+
+    return { length: text.length, repeats: max === '' || Number(max) > 1 };
+}
+
+/**
+ * Whether a (compiling) pattern repeats a group that contains a repeating
+ * quantifier itself, like (a+)+ or (?:\w+\s?)*. These can backtrack
+ * catastrophically, taking exponential time on text that almost matches.
+ *
+ * NB: Only nested quantifiers are caught, not overlapping alternatives
+ * like (a|a)+, which are far less likely to be written by accident.
+ */
+function hasNestedQuantifier(pattern: string) {
+    /**
+     * Whether each open group contains a repeating quantifier so far.
+     */
+    const groups: boolean[] = [];
+
+    for (let index = 0; index < pattern.length; index++) {
+        const char = pattern[index];
+        let atomRepeats = false;
+
+        if (char === '\\') {
+            index++;
+        }
+        else if (char === '[') {
+            while (++index < pattern.length && pattern[index] !== ']') {
+                if (pattern[index] === '\\') {
+                    index++;
+                }
+            }
+        }
+        else if (char === '(') {
+            groups.push(false);
+            index += GROUP_PREFIX_REGEX.exec(pattern.slice(index + 1))?.[0].length ?? 0;
+            continue;
+        }
+        else if (char === ')') {
+            atomRepeats = groups.pop() ?? false;
+        }
+
+        const quantifier = readQuantifier(pattern, index + 1);
+
+        if (quantifier) {
+            if (quantifier.repeats && atomRepeats) {
+                return true;
+            }
+
+            index += quantifier.length;
+            atomRepeats ||= quantifier.repeats;
+
+            // Lazy quantifier.
+            if (pattern[index + 1] === '?') {
+                index++;
+            }
+        }
+
+        if (atomRepeats && groups.length > 0) {
+            groups[groups.length - 1] = true;
+        }
+    }
+
+    return false;
+}
+
+/**
+ * Check that a custom pattern compiles, can't match an empty string
+ * (which would match every post) and has no nested quantifiers.
+ */
+export function validatePattern(pattern: string): ValidationResult {
+    if (pattern.length > MAX_PATTERN_LENGTH) {
+        return { success: false, message: `Pattern is longer than ${MAX_PATTERN_LENGTH} characters.` };
+    }
+
+    let regex: RegExp;
+
+    try {
+        regex = compilePattern(pattern);
+    }
+    catch (error) {
+        return { success: false, message: error instanceof Error ? error.message : String(error) };
+    }
+
+    if (regex.test('')) {
+        return { success: false, message: 'Pattern matches an empty string.' };
+    }
+
+    if (hasNestedQuantifier(pattern)) {
+        return { success: false, message: 'Pattern repeats a group that contains a repeated part, like (a+)+, which can be very slow to match.' };
+    }
+
+    return { success: true };
+}
+
+/**
+ * All non-empty occurrences of a compiled pattern in the text.
+ */
+export function findPatternMatches(regex: RegExp, text: string) {
+    return Array
+        .from(text.matchAll(regex), match => ({ text: match[0], start: match.index, end: match.index + match[0].length }))
+        .filter(match => match.text !== '');
+}
@@ -0,0 +1,133 @@
+import { escapeRegExp } from './patterns.js';
+import type { Platform } from './types.js';
+
+/**
+ * What the matcher needs to know about a social platform:
+ *
+ * label - name of the platform, e.g. in lint messages
+ * hostnames - hostnames of the platform and of its mirrors and embed proxies
+ * pathnames - profile and post URL shapes, the first capture group is the handle
+ * profileUrl - URL of the profile page of a handle, e.g. in the report comment
+ *
+ * NB: URL pathname always starts with forward slash
+ */
+type PlatformDefinition = {
+    label: string;
+    hostnames: string[];
+    pathnames: RegExp[];
+    profileUrl: (handle: string) => string;
+};
+
+/**
+ * Twitter, Instagram and Telegram profiles live at the root, so the other
+ * top level pages must be excluded.
+ */
+const TWITTER_RESERVED = ['i', 'home', 'search', 'explore', 'hashtag', 'intent', 'share', 'settings', 'notifications', 'messages'];
+const INSTAGRAM_RESERVED = ['p', 'reel', 'reels', 'explore', 'tv', 'stories', 'accounts', 'direct'];
+const TELEGRAM_RESERVED = ['s', 'c', 'joinchat', 'addstickers', 'share'];
+
+function getRootPathname(reserved: string[]) {
+    return new RegExp(`^/(?!(?:${reserved.map(escapeRegExp).join('|')})(?:/|$))([^/\\s]+)`);
+}
+
+export const PLATFORMS: Record<Platform, PlatformDefinition> = {
+    twitter: {
+        label: 'Twitter',
+        hostnames: [
+            'twitter.com',
+            'www.twitter.com',
+            'mobile.twitter.com',
+            'x.com',
+            'www.x.com',
+            'mobile.x.com',
+            'fxtwitter.com',
+            'vxtwitter.com',
+            'fixupx.com',
+            'fixvx.com',
+            'nitter.net',
+            'nitter.poast.org',
+            'nitter.privacydev.net',
+            'xcancel.com'
+        ],
+        // /handle, /handle/ or /handle/status/12345
+        pathnames: [getRootPathname(TWITTER_RESERVED)],
+        profileUrl: handle => `https://twitter.com/${handle}`,
+    },
+    bluesky: {
+        label: 'Bluesky',
+        hostnames: ['bsky.app'],
+        // /profile/handle or /profile/handle/post/abc123
+        pathnames: [/^\/profile\/([^/\s]+)/],
+        profileUrl: handle => `https://bsky.app/profile/${handle}`,
+    },
+    threads: {
+        label: 'Threads',
+        hostnames: ['threads.net', 'www.threads.net', 'threads.com', 'www.threads.com'],
+        // /@handle or /@handle/post/abc123
+        pathnames: [/^\/@([^/\s]+)/],
+        profileUrl: handle => `https://www.threads.net/@${handle}`,
+    },
+    instagram: {
+        label: 'Instagram',
+        hostnames: ['instagram.com', 'www.instagram.com', 'm.instagram.com'],
+        // /stories/handle/123 or /handle (but not /p/abc123, /reel/abc123 etc.)
+        pathnames: [/^\/stories\/([^/\s]+)/, getRootPathname(INSTAGRAM_RESERVED)],
+        profileUrl: handle => `https://www.instagram.com/${handle}`,
+    },
+    youtube: {
+        label: 'YouTube',
+        hostnames: ['youtube.com', 'www.youtube.com', 'm.youtube.com'],
+        // /@handle, /c/handle or /user/handle
+        pathnames: [/^\/@([^/\s]+)/, /^\/(?:c|user)\/([^/\s]+)/],
+        profileUrl: handle => `https://www.youtube.com/@${handle}`,
+    },
+    telegram: {
+        label: 'Telegram',
+        hostnames: ['t.me', 'telegram.me'],
+        // /s/handle (web preview) or /handle/123
+        pathnames: [/^\/s\/([^/\s]+)/, getRootPathname(TELEGRAM_RESERVED)],
+        profileUrl: handle => `https://t.me/${handle}`,
+    },
+};
+
+/**
+ * Platforms in the order their handles are listed in (e.g. in the report comment).
+ */
+export const PLATFORM_NAMES = Object.keys(PLATFORMS) as Platform[];
+
+export function getPlatformByHostname(hostname: string) {
+    const lowercase = hostname.toLowerCase();
+
+    return PLATFORM_NAMES.find(platform => PLATFORMS[platform].hostnames.includes(lowercase)) ?? null;
+}
+
+/**
+ * Get the handle from a profile or post URL pathname of a platform,
+ * e.g. "handle" from /profile/handle/post/abc123 on Bluesky.
+ */
+export function getHandleFromPathname(platform: Platform, pathname: string) {
+    for (const pattern of PLATFORMS[platform].pathnames) {
+        const handle = pattern.exec(pathname)?.[1];
+
+        if (handle) {
+            return handle;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Get the platform and handle of a profile or post URL, null for URLs
+ * of other sites or other pages of the platform.
+ */
+export function getHandleFromUrl(url: URL) {
+    const platform = getPlatformByHostname(url.hostname);
+    const handle = platform ? getHandleFromPathname(platform, url.pathname) : null;
+
+    return platform && handle ? { platform, handle } : null;
+}
+
+export function getProfileUrl(platform: Platform, handle: string) {
+    return PLATFORMS[platform].profileUrl(handle);
+}
@@ -1,6 +1,7 @@
 import type { RefinementCtx } from 'zod';
 import { z } from 'zod';
-import { normalizeText } from './index.js';
+import type { TemplatePlaceholders } from './template.js';
+import { DEFAULT_TIERS, PLATFORM_NAMES, commentTemplatePlaceholders, flairTemplatePlaceholders, normalizeText, parseDomainRule, validatePattern, validateTemplate } from './index.js';
 
 function preprocessCommaSeparated(value: unknown, ctx: RefinementCtx) {
     if (typeof value !== 'string') {
@@ -41,6 +42,13 @@ function preprocessCommaSeparated(value: unknown, ctx: RefinementCtx) {
     }
 }
 
+/**
+ * Devvit select fields store the selected value(s) as an array.
+ */
+function preprocessSelect(value: unknown) {
+    return Array.isArray(value) ? value[0] as unknown : value;
+}
+
 /**
  * @see https://zod.dev/ERROR_HANDLING
  */
@@ -70,33 +78,276 @@ function preprocessJSON(value: unknown, ctx: RefinementCtx) {
     }
 }
 
-export const sourceSchema = z.object({
-    id: z.string(),
+/**
+ * Alternate spellings, nicknames and abbreviations of a source name,
+ * each with its own nameIsCommon strictness.
+ */
+export const aliasSchema = z.object({
     name: z.string(),
     nameIsCommon: z.boolean(),
-    type: z.union([
-        z.literal('journalist'),
-        z.literal('media'),
-        z.literal('aggregator')
-    ]),
-    tier: z.number().nullable(),
-    organization: z.string().nullable(),
-    twitter: z.string().nullable(),
-    domains: z.array(z.string()).nullable()
 }).transform(data => ({
     ...data,
     nameNormalized: normalizeText(data.name),
-    twitterNormalized: data.twitter ? normalizeText(data.twitter) : null,
 }));
 
+function refineTemplate(value: string, ctx: RefinementCtx, placeholders: TemplatePlaceholders) {
+    const result = validateTemplate(value, placeholders);
+
+    if (!result.success) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Invalid template. ${result.message}`,
+        });
+    }
+}
+
+function refinePattern(value: string, ctx: RefinementCtx) {
+    const result = validatePattern(value);
+
+    if (!result.success) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Invalid pattern. ${result.message}`,
+        });
+    }
+}
+
+export const sourceTypeSchema = z.union([
+    z.literal('journalist'),
+    z.literal('media'),
+    z.literal('aggregator')
+]);
+
+export const platformSchema = z.union([
+    z.literal('twitter'),
+    z.literal('bluesky'),
+    z.literal('threads'),
+    z.literal('instagram'),
+    z.literal('youtube'),
+    z.literal('telegram')
+]);
+
+/**
+ * A domain with an optional path prefix, or an object with path
+ * prefixes to exclude (see parseDomainRule).
+ */
+export const domainSchema = z.union([
+    z.string(),
+    z.object({
+        domain: z.string(),
+        exclude: z.array(z.string()).default([]),
+    })
+]);
+
+/**
+ * Social accounts are a map of platform => handle. The "twitter" field is a
+ * shorthand for socials.twitter, which takes precedence if both are set.
+ *
+ * Context keywords around a name raise its score, negative keywords lower it,
+ * and with requireContext a name only counts next to a context keyword
+ * (see getMatchScore).
+ *
+ * NB: The optional pattern is a regular expression for edge cases that
+ * names and aliases can't cover (see compilePattern).
+ */
+export const sourceSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    nameIsCommon: z.boolean(),
+    aliases: z.array(aliasSchema).default([]),
+    type: sourceTypeSchema,
+    tier: z.number().nullable(),
+    organization: z.string().nullable(),
+    twitter: z.string().nullable().default(null),
+    socials: z.record(platformSchema, z.string()).default({}),
+    domains: z.array(domainSchema).nullable(),
+    pattern: z.string().superRefine(refinePattern).nullable().default(null),
+    contextKeywords: z.array(z.string()).default([]),
+    requireContext: z.boolean().default(false),
+    negativeKeywords: z.array(z.string()).default([])
+}).transform(data => {
+    const socials = data.twitter !== null ? { twitter: data.twitter, ...data.socials } : data.socials;
+
+    return {
+        ...data,
+        socials,
+        nameNormalized: normalizeText(data.name),
+        twitterNormalized: socials.twitter ? normalizeText(socials.twitter) : null,
+        domainRules: (data.domains ?? []).map(parseDomainRule),
+        contextKeywordsNormalized: data.contextKeywords.map(normalizeText),
+        negativeKeywordsNormalized: data.negativeKeywords.map(normalizeText),
+        handles: PLATFORM_NAMES.flatMap(platform => {
+            const handle = socials[platform];
+            return handle ? [{ platform, handle, handleNormalized: normalizeText(handle) }] : [];
+        }),
+    };
+});
+
+/**
+ * NB: Ids are positive integers, so that templates can test for a tier with {{#tier}}.
+ */
+export const tierSchema = z.object({
+    id: z.number().int().positive(),
+    label: z.string(),
+    order: z.number(),
+    reliable: z.boolean(),
+    emoji: z.string().nullable(),
+});
+
+/**
+ * An empty list means the default 1-5 scale.
+ */
+export const tierListSchema = z.array(tierSchema)
+    .refine(tiers => new Set(tiers.map(tier => tier.id)).size === tiers.length, { message: 'Tier ids must be unique.' })
+    .transform(tiers => tiers.length > 0 ? tiers : DEFAULT_TIERS);
+
+/**
+ * Flair to use for sources of certain tiers and/or types. A null list
+ * matches any tier or type, null template ID and CSS class fall back to the
+ * global settings, and null text falls back to "Tier N" / "Aggregator".
+ */
+export const flairMappingSchema = z.object({
+    tiers: z.array(z.number()).nullable(),
+    types: z.array(sourceTypeSchema).nullable(),
+    flairTemplateId: z.string().nullable(),
+    flairCssClass: z.string().nullable(),
+    text: z.string().superRefine((value, ctx) => refineTemplate(value, ctx, flairTemplatePlaceholders)).nullable(),
+});
+
+export const matchLocationSchema = z.union([
+    z.literal('title'),
+    z.literal('url'),
+    z.literal('link'),
+    z.literal('body')
+]);
+
+export const languageSchema = z.union([
+    z.literal('en'),
+    z.literal('es'),
+    z.literal('ca')
+]);
+
+export const moderationActionSchema = z.union([
+    z.literal('remove'),
+    z.literal('report'),
+    z.literal('filter'),
+    z.literal('lock'),
+    z.literal('modmail')
+]);
+
+/**
+ * A rule is triggered when at least one source matches all of its (non-null)
+ * conditions and no source in the post has one of the "unlessTypes" types.
+ * The tier range is inclusive and follows the tier order.
+ */
+export const moderationRuleSchema = z.object({
+    name: z.string().min(1),
+    minTier: z.number().nullable(),
+    maxTier: z.number().nullable(),
+    types: z.array(sourceTypeSchema).nullable(),
+    sourceIds: z.array(z.string()).nullable(),
+    locations: z.array(matchLocationSchema).nullable(),
+    unlessTypes: z.array(sourceTypeSchema).nullable(),
+    actions: z.array(moderationActionSchema).min(1),
+    reason: z.string().nullable(),
+});
+
 export const settingsSchema = z.object({
     sources: z.preprocess((data, ctx) => preprocessJSON(data, ctx), z.array(sourceSchema)),
+    sourcesWikiPage: z.string().trim(),
+    sourcesWikiSubreddit: z.string().trim().regex(/^[a-zA-Z0-9_]*$/, 'Invalid subreddit name.'),
+    tiers: z.preprocess((data, ctx) => preprocessJSON(data, ctx), tierListSchema),
+    inheritOrganizationTier: z.boolean(),
     flairTemplateId: z.string(),
     flairCssClass: z.string(),
+    flairMappings: z.preprocess((data, ctx) => preprocessJSON(data, ctx), z.array(flairMappingSchema)),
+    flairPolicy: z.preprocess(data => preprocessSelect(data), z.union([
+        z.literal('mostReliable'),
+        z.literal('leastReliable'),
+        z.literal('primary')
+    ])),
+    moderationRules: z.preprocess((data, ctx) => preprocessJSON(data, ctx), z.array(moderationRuleSchema)),
     commentFooter: z.string(),
+    commentTemplate: z.string().superRefine((value, ctx) => refineTemplate(value, ctx, commentTemplatePlaceholders)),
+    language: z.preprocess(data => preprocessSelect(data), languageSchema),
+    multilingualReport: z.boolean(),
     analyzeNamesInBody: z.boolean(),
     analyzeTwitterInBody: z.boolean(),
     analyzeLinksInBody: z.boolean(),
+    matchScoreThreshold: z.number().int().min(0).max(100),
+    showMatchDetails: z.boolean(),
+    analyzeComments: z.boolean(),
+    commentWarningTier: z.number().int(),
+    commentWarningAction: z.preprocess(data => preprocessSelect(data), z.union([
+        z.literal('reply'),
+        z.literal('report')
+    ])),
+    commentWarningLimit: z.number().int().min(0),
     ignoredUsers: z.preprocess((data, ctx) => preprocessCommaSeparated(data, ctx), z.array(z.string())),
+    lookupCommand: z.boolean(),
+    lookupUserCooldownMinutes: z.number().int().min(0),
+    lookupThreadCooldownMinutes: z.number().int().min(0),
+    discoveryThreshold: z.number().int().min(0),
+    statsDigest: z.preprocess(data => preprocessSelect(data), z.union([
+        z.literal('off'),
+        z.literal('post'),
+        z.literal('modmail')
+    ])),
     errorReportSubredditName: z.string(),
-});
\ No newline at end of file
+    ledgerRetentionDays: z.number().int().min(1),
+});
+
+/**
+ * Cross-setting validation, each source can only use a tier from the tier list.
+ */
+export function refineSourceTiers({ sources, tiers }: Pick<z.infer<typeof settingsSchema>, 'sources' | 'tiers'>, ctx: RefinementCtx) {
+    sources.forEach((source, index) => {
+        if (source.tier !== null && !tiers.some(tier => tier.id === source.tier)) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: `Source "${source.id}" has tier ${source.tier} which is not in the tier list.`,
+                path: ['sources', index, 'tier'],
+            });
+        }
+    });
+}
+
+/**
+ * Cross-setting validation, moderation rule tier ranges can only use tiers from the tier list.
+ */
+export function refineModerationRuleTiers({ moderationRules, tiers }: Pick<z.infer<typeof settingsSchema>, 'moderationRules' | 'tiers'>, ctx: RefinementCtx) {
+    moderationRules.forEach((rule, index) => {
+        for (const key of ['minTier', 'maxTier'] as const) {
+            const id = rule[key];
+
+            if (id !== null && !tiers.some(tier => tier.id === id)) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    message: `Moderation rule "${rule.name}" has ${key} ${id} which is not in the tier list.`,
+                    path: ['moderationRules', index, key],
+                });
+            }
+        }
+    });
+}
+
+/**
+ * Cross-setting validation, the comment warning tier has to be in the tier list.
+ *
+ * NB: Only while comments are analyzed, so that the tier list can be
+ * replaced (which changes the valid warning tiers) with the analysis off.
+ */
+export function refineCommentWarningTier({ analyzeComments, commentWarningTier, tiers }: Pick<z.infer<typeof settingsSchema>, 'analyzeComments' | 'commentWarningTier' | 'tiers'>, ctx: RefinementCtx) {
+    if (analyzeComments && !tiers.some(tier => tier.id === commentWarningTier)) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Comment warning tier ${commentWarningTier} is not in the tier list.`,
+            path: ['commentWarningTier'],
+        });
+    }
+}
+
+export const appSettingsSchema = settingsSchema
+    .superRefine(refineSourceTiers)
+    .superRefine(refineModerationRuleTiers)
+    .superRefine(refineCommentWarningTier);
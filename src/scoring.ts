@@ -0,0 +1,93 @@
+import type { Match, MatchLocation, MatchRule, Source } from './types.js';
+
+/**
+ * How sure a match is that the post refers to the source, out of 100, before
+ * context. Domains and handles are unambiguous, names much less so, except
+ * in the strict name:, (name) or [name] form.
+ */
+const RULE_WEIGHTS: Record<'name' | 'commonName' | 'pattern' | 'domain' | 'handle', number> = {
+    name: 70,
+    commonName: 90,
+    pattern: 90,
+    domain: 100,
+    handle: 100,
+};
+
+/**
+ * How much a match counts depending on where it was found, out of 100.
+ * The post URL and title are about the post, the body less so.
+ */
+const LOCATION_WEIGHTS: Record<MatchLocation, number> = {
+    url: 100,
+    title: 100,
+    link: 90,
+    body: 80,
+};
+
+/**
+ * Added to a name match with a context keyword around it.
+ */
+const CONTEXT_BOOST = 20;
+
+/**
+ * Subtracted from a name match with a negative keyword around it.
+ */
+const NEGATIVE_PENALTY = 50;
+
+/**
+ * How many characters before and after a name are searched for keywords.
+ */
+export const CONTEXT_WINDOW = 100;
+
+/**
+ * Keywords found around a name match (see contextKeywords and negativeKeywords).
+ */
+export type MatchContext = {
+    context: boolean;
+    negative: boolean;
+};
+
+function getRuleWeight(rule: MatchRule) {
+    return rule === 'name' || rule === 'commonName' || rule === 'pattern' || rule === 'domain'
+        ? RULE_WEIGHTS[rule]
+        : RULE_WEIGHTS.handle;
+}
+
+/**
+ * Only names (and custom patterns) found in text are ambiguous enough to
+ * depend on keywords, domains and handles are not.
+ */
+export function isContextRule(rule: MatchRule) {
+    return rule === 'name' || rule === 'commonName' || rule === 'pattern';
+}
+
+/**
+ * Score of a match from 0 to 100: the weight of its rule and location,
+ * raised by context keywords and lowered by negative keywords around it.
+ * Names of sources that require context score 0 without a context keyword.
+ *
+ * NB: The context is null for matches that keywords don't apply to.
+ */
+export function getMatchScore(source: Source, { rule, location }: Match, context: MatchContext | null) {
+    const score = Math.round(getRuleWeight(rule) * LOCATION_WEIGHTS[location] / 100);
+
+    if (!context) {
+        return score;
+    }
+
+    if (source.requireContext && !context.context) {
+        return 0;
+    }
+
+    const adjusted = score + (context.context ? CONTEXT_BOOST : 0) - (context.negative ? NEGATIVE_PENALTY : 0);
+
+    return Math.min(100, Math.max(0, adjusted));
+}
+
+/**
+ * Matches scoring below the threshold setting are left out, as are those
+ * scoring 0 regardless of the threshold.
+ */
+export function isScoreIncluded(score: number, threshold: number) {
+    return score > 0 && score >= threshold;
+}
@@ -0,0 +1,283 @@
+import type { Context, TriggerContext } from '@devvit/public-api';
+import { sendModmail } from './helpers.js';
+import { getSourceById } from './organizations.js';
+import { getPlatformByHostname } from './platforms.js';
+import { getTierLabel, getTierOrder, isUnreliableTier } from './tiers.js';
+import type { AppSettings, Link, MatchLocation, PostData, SourceResult } from './types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DIGEST_PERIOD_DAYS = 7;
+const DIGEST_TOP_SOURCES = 10;
+const DIGEST_TOP_DOMAINS = 10;
+
+export const STATS_DIGEST_JOB = 'statsDigest';
+
+/**
+ * Every Monday at 09:00 UTC, covering the week up to Sunday.
+ */
+export const STATS_DIGEST_CRON = '0 9 * * 1';
+
+export type PostStatsSource = {
+    id: string;
+    tier: number | null;
+    locations: MatchLocation[];
+};
+
+/**
+ * What was found in a post, recorded for the digest. Posts are filed under
+ * the day they were created, so that edits replace the original record.
+ */
+export type PostStatsRecord = {
+    postId: string;
+    createdAt: number;
+    sources: PostStatsSource[];
+    unmatchedDomains: string[];
+};
+
+/**
+ * Where the records are kept (see createRedisStatsStore), separate from the
+ * aggregation so that it can be tested without Redis.
+ */
+export type StatsStore = {
+    addRecord: (record: PostStatsRecord) => Promise<void>;
+
+    /**
+     * Records of posts created in [from, to).
+     */
+    getRecords: (from: number, to: number) => Promise<PostStatsRecord[]>;
+};
+
+type CountEntry<T> = {
+    key: T;
+    count: number;
+    previousCount: number;
+};
+
+export type StatsDigest = {
+    from: number;
+    to: number;
+    posts: number;
+    previousPosts: number;
+    postsWithSources: number;
+    unreliablePosts: number;
+    previousUnreliablePosts: number;
+    sources: CountEntry<string>[];
+    tiers: CountEntry<number | null>[];
+    unmatchedDomains: CountEntry<string>[];
+};
+
+/**
+ * Hostnames of the post URL and body links that no source matched, without
+ * the "www." prefix. Social platforms are left out (their handles are matched
+ * instead), and so are wrapped links that couldn't be resolved.
+ */
+export function getUnmatchedDomains(postData: PostData, results: SourceResult[] | null, settings: AppSettings) {
+    const links: Link[] = [
+        ...(postData.url ? [postData.url] : []),
+        ...(postData.links && settings.analyzeLinksInBody ? postData.links : [])
+    ];
+
+    const matched = new Set((results ?? []).flatMap(({ matches }) => matches
+        .filter(({ location, rule }) => rule === 'domain' && (location === 'url' || location === 'link'))
+        .map(({ text }) => text.split('/')[0])));
+
+    const hostnames = links
+        .filter(({ target, wrapper }) => target.hostname !== wrapper?.hostname)
+        .map(({ target }) => target.hostname.toLowerCase())
+        .filter(hostname => !matched.has(hostname) && !getPlatformByHostname(hostname))
+        .map(hostname => hostname.replace(/^www\./, ''));
+
+    return [...new Set(hostnames)];
+}
+
+type CreatePostStatsRecordProps = {
+    postData: PostData;
+    createdAt: Date;
+    results: SourceResult[] | null;
+    settings: AppSettings;
+};
+
+export function createPostStatsRecord({ postData, createdAt, results, settings }: CreatePostStatsRecordProps): PostStatsRecord {
+    return {
+        postId: postData.id,
+        createdAt: createdAt.getTime(),
+        sources: (results ?? []).map(({ source, matches }) => ({
+            id: source.id,
+            tier: source.tier,
+            locations: [...new Set(matches.map(({ location }) => location))],
+        })),
+        unmatchedDomains: getUnmatchedDomains(postData, results, settings),
+    };
+}
+
+/**
+ * Count how many records have each key, this week and the week before.
+ * Keys are counted once per record.
+ */
+function countByKey<T>(records: PostStatsRecord[], previousRecords: PostStatsRecord[], getKeys: (record: PostStatsRecord) => T[]) {
+    const counts = new Map<T, CountEntry<T>>();
+
+    const count = (list: PostStatsRecord[], field: 'count' | 'previousCount') => {
+        for (const record of list) {
+            for (const key of new Set(getKeys(record))) {
+                const entry = counts.get(key) ?? { key, count: 0, previousCount: 0 };
+                entry[field]++;
+                counts.set(key, entry);
+            }
+        }
+    };
+
+    count(records, 'count');
+    count(previousRecords, 'previousCount');
+
+    return Array.from(counts.values());
+}
+
+function hasUnreliableSource(record: PostStatsRecord, settings: AppSettings) {
+    return record.sources.some(({ tier }) => isUnreliableTier(settings.tiers, tier));
+}
+
+type BuildStatsDigestProps = {
+    from: number;
+    to: number;
+    records: PostStatsRecord[];
+    previousRecords: PostStatsRecord[];
+    settings: AppSettings;
+};
+
+/**
+ * Aggregate the records of a period, compared to the period before it.
+ * Only sources and domains seen in the current period are listed, most
+ * frequent first (ties in alphabetical order), tiers follow the tier order.
+ */
+export function buildStatsDigest({ from, to, records, previousRecords, settings }: BuildStatsDigestProps): StatsDigest {
+    const byCount = <T>(a: CountEntry<T>, b: CountEntry<T>) => b.count - a.count || String(a.key).localeCompare(String(b.key));
+
+    return {
+        from,
+        to,
+        posts: records.length,
+        previousPosts: previousRecords.length,
+        postsWithSources: records.filter(({ sources }) => sources.length > 0).length,
+        unreliablePosts: records.filter(record => hasUnreliableSource(record, settings)).length,
+        previousUnreliablePosts: previousRecords.filter(record => hasUnreliableSource(record, settings)).length,
+        sources: countByKey(records, previousRecords, ({ sources }) => sources.map(({ id }) => id))
+            .filter(({ count }) => count > 0)
+            .sort(byCount)
+            .slice(0, DIGEST_TOP_SOURCES),
+        tiers: countByKey(records, previousRecords, ({ sources }) => sources.map(({ tier }) => tier))
+            .filter(({ count }) => count > 0)
+            .sort((a, b) => getTierOrder(settings.tiers, a.key) - getTierOrder(settings.tiers, b.key)),
+        unmatchedDomains: countByKey(records, previousRecords, ({ unmatchedDomains }) => unmatchedDomains)
+            .filter(({ count }) => count > 0)
+            .sort(byCount)
+            .slice(0, DIGEST_TOP_DOMAINS),
+    };
+}
+
+/**
+ * Load the records of the last full week (up to the start of the current
+ * UTC day) and of the week before it, and aggregate them.
+ */
+export async function getStatsDigest(store: StatsStore, settings: AppSettings, now = Date.now()) {
+    const to = now - (now % DAY_MS);
+    const from = to - DIGEST_PERIOD_DAYS * DAY_MS;
+
+    const [records, previousRecords] = await Promise.all([
+        store.getRecords(from, to),
+        store.getRecords(from - DIGEST_PERIOD_DAYS * DAY_MS, from)
+    ]);
+
+    return buildStatsDigest({ from, to, records, previousRecords, settings });
+}
+
+function formatDate(timestamp: number) {
+    return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function formatChange(count: number, previousCount: number) {
+    const change = count - previousCount;
+    return change > 0 ? `+${change}` : change < 0 ? `${change}` : '±0';
+}
+
+function formatShare(count: number, total: number) {
+    return total > 0 ? `${(count / total * 100).toFixed(1)}%` : '0.0%';
+}
+
+function formatPosts(count: number) {
+    return count === 1 ? '1 post' : `${count} posts`;
+}
+
+function getTierName(tier: number | null, settings: AppSettings) {
+    return tier !== null ? `Tier ${tier} (${getTierLabel(settings.tiers, tier)})` : 'No tier';
+}
+
+/**
+ * Markdown of the digest, changes are relative to the week before.
+ *
+ * NB: Sources removed from the list since are shown by their id.
+ */
+export function getStatsDigestMarkdown(digest: StatsDigest, settings: AppSettings) {
+    const sources = digest.sources.map(({ key, count, previousCount }) => {
+        const name = getSourceById(settings.sources, key)?.name ?? key;
+        return `- ${name}: ${formatPosts(count)} (${formatChange(count, previousCount)})`;
+    });
+
+    const tiers = digest.tiers.map(({ key, count, previousCount }) => `- ${getTierName(key, settings)}: ${formatPosts(count)} (${formatChange(count, previousCount)})`);
+    const domains = digest.unmatchedDomains.map(({ key, count }) => `- ${key}: ${formatPosts(count)}`);
+
+    return [
+        `**Media reliability digest:** ${formatDate(digest.from)} to ${formatDate(digest.to - DAY_MS)}`,
+        [
+            `- Posts: ${digest.posts} (${formatChange(digest.posts, digest.previousPosts)})`,
+            `- Posts with sources: ${digest.postsWithSources} (${formatShare(digest.postsWithSources, digest.posts)})`,
+            `- Posts with unreliable sources: ${digest.unreliablePosts} (${formatShare(digest.unreliablePosts, digest.posts)}, previous week ${formatShare(digest.previousUnreliablePosts, digest.previousPosts)})`,
+        ].join('\n'),
+        '**Top sources:**',
+        sources.length > 0 ? sources.join('\n') : '*No sources found.*',
+        '**Tier distribution:**',
+        tiers.length > 0 ? tiers.join('\n') : '*No sources found.*',
+        '**Most frequent unmatched domains:**',
+        domains.length > 0 ? domains.join('\n') : '*No unmatched domains.*',
+    ].join('\n\n');
+}
+
+/**
+ * Replace any previously scheduled digest job (e.g. from an older version of the app).
+ */
+export async function scheduleStatsDigest(context: TriggerContext) {
+    const jobs = await context.scheduler.listJobs();
+
+    await Promise.all(jobs
+        .filter(({ name }) => name === STATS_DIGEST_JOB)
+        .map(({ id }) => context.scheduler.cancelJob(id)));
+
+    await context.scheduler.runJob({ name: STATS_DIGEST_JOB, cron: STATS_DIGEST_CRON });
+}
+
+type SendStatsDigestProps = {
+    store: StatsStore;
+    settings: AppSettings;
+    context: Context | TriggerContext;
+};
+
+/**
+ * Post the digest to the subreddit or send it to modmail, following the settings.
+ */
+export async function sendStatsDigest({ store, settings, context }: SendStatsDigestProps) {
+    if (settings.statsDigest === 'off') {
+        return;
+    }
+
+    const digest = await getStatsDigest(store, settings);
+    const text = getStatsDigestMarkdown(digest, settings);
+    const title = `Media reliability digest ${formatDate(digest.from)} to ${formatDate(digest.to - DAY_MS)}`;
+    const { name: subredditName } = await context.reddit.getCurrentSubreddit();
+
+    if (settings.statsDigest === 'post') {
+        await context.reddit.submitPost({ subredditName, title, text });
+    }
+    else {
+        await sendModmail(context, subredditName, title, text);
+    }
+}
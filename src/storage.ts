@@ -0,0 +1,278 @@
+import type { Context, TriggerContext } from '@devvit/public-api';
+import { getSourceMatcher } from './matcher.js';
+import type { DiscoveryCandidate, DiscoveryReview } from './discovery.js';
+import { getDiscoveryKey } from './discovery.js';
+import type { PostStatsRecord, StatsStore } from './stats.js';
+import type { AppSettings, SourceResult } from './types.js';
+
+/**
+ * What the app did with a post, recorded once the post is processed.
+ * Used to prevent acting on the same post twice (e.g. retried triggers or a
+ * crosspost and its parent) and to find the report comment again on edits.
+ */
+export type LedgerEntry = {
+    commentId: string | null;
+    flairText: string | null;
+    sourceIds: string[];
+    sourceListVersion: string;
+    processedAt: number;
+
+    /**
+     * Set while the post is being processed (see reserveLedgerEntry).
+     */
+    pending?: boolean;
+};
+
+type CreateLedgerEntryProps = {
+    commentId: string | null;
+    flairText: string | null;
+    results: SourceResult[] | null;
+    settings: AppSettings;
+};
+
+function getLedgerKey(postId: string) {
+    return `ledger:${postId}`;
+}
+
+export function createLedgerEntry({ commentId, flairText, results, settings }: CreateLedgerEntryProps): LedgerEntry {
+    return {
+        commentId,
+        flairText,
+        sourceIds: results?.map(({ source }) => source.id) ?? [],
+        sourceListVersion: getSourceMatcher(settings.sources).version,
+        processedAt: Date.now()
+    };
+}
+
+export async function getLedgerEntry(context: TriggerContext, postId: string) {
+    const value = await context.redis.get(getLedgerKey(postId));
+    return value ? JSON.parse(value) as LedgerEntry : null;
+}
+
+/**
+ * Entries expire after the configured retention period, so that
+ * storage doesn't grow forever. Posts older than that are not
+ * processed again on edits (see isWithinRetention).
+ */
+function getLedgerExpiration(entry: LedgerEntry, retentionDays: number) {
+    return new Date(entry.processedAt + retentionDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Claim a post before reporting it, with a pending entry that
+ * setLedgerEntry replaces once the post is processed. Returns false
+ * if the post was already claimed (e.g. a crosspost and its parent).
+ *
+ * NB: A post that fails halfway stays claimed, as it's better to
+ * miss a report than to post it twice.
+ */
+export async function reserveLedgerEntry(context: TriggerContext, postId: string, retentionDays: number) {
+    const entry: LedgerEntry = {
+        commentId: null,
+        flairText: null,
+        sourceIds: [],
+        sourceListVersion: '',
+        processedAt: Date.now(),
+        pending: true
+    };
+
+    const result = await context.redis.set(getLedgerKey(postId), JSON.stringify(entry), {
+        nx: true,
+        expiration: getLedgerExpiration(entry, retentionDays)
+    });
+
+    return Boolean(result);
+}
+
+function getPostEventKey(postId: string) {
+    return `post-event:${postId}`;
+}
+
+/**
+ * Triggers are retried within minutes, a day is plenty to tell a retry apart.
+ */
+const POST_EVENT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Claim the submit event of a post, so that a retried trigger is skipped.
+ * Returns false if it was already claimed.
+ *
+ * NB: Separate from the ledger, which is keyed by the reported post: the
+ * parent post of a crosspost, which has its own event.
+ */
+export async function reservePostEvent(context: TriggerContext, postId: string) {
+    const result = await context.redis.set(getPostEventKey(postId), '1', {
+        nx: true,
+        expiration: new Date(Date.now() + POST_EVENT_WINDOW_MS)
+    });
+
+    return Boolean(result);
+}
+
+export async function setLedgerEntry(context: TriggerContext, postId: string, entry: LedgerEntry, retentionDays: number) {
+    await context.redis.set(getLedgerKey(postId), JSON.stringify(entry), {
+        expiration: getLedgerExpiration(entry, retentionDays)
+    });
+}
+
+/**
+ * Last wiki revision of the source list that passed validation, and the
+ * last one that didn't (so that moderators are only notified once about it).
+ */
+export type WikiSourcesRecord = {
+    revisionId: string | null;
+    content: string | null;
+    failedRevisionId: string | null;
+};
+
+function getWikiSourcesKey(subredditName: string, page: string) {
+    return `wiki-sources:${subredditName.toLowerCase()}:${page}`;
+}
+
+export async function getWikiSourcesRecord(context: Context | TriggerContext, subredditName: string, page: string): Promise<WikiSourcesRecord> {
+    const value = await context.redis.get(getWikiSourcesKey(subredditName, page));
+    return value ? JSON.parse(value) as WikiSourcesRecord : { revisionId: null, content: null, failedRevisionId: null };
+}
+
+export async function setWikiSourcesRecord(context: Context | TriggerContext, subredditName: string, page: string, record: WikiSourcesRecord) {
+    await context.redis.set(getWikiSourcesKey(subredditName, page), JSON.stringify(record));
+}
+
+/**
+ * Warnings are counted per thread in a fixed window that starts with the first warning.
+ */
+const THREAD_WARNING_WINDOW_SECONDS = 24 * 60 * 60;
+
+function getThreadWarningsKey(postId: string) {
+    return `thread-warnings:${postId}`;
+}
+
+/**
+ * Count a warning against the thread and tell whether it's still within the limit.
+ */
+export async function reserveThreadWarning(context: TriggerContext, postId: string, limit: number) {
+    const key = getThreadWarningsKey(postId);
+    const count = await context.redis.incrBy(key, 1);
+
+    if (count === 1) {
+        await context.redis.expire(key, THREAD_WARNING_WINDOW_SECONDS);
+    }
+
+    return count <= limit;
+}
+
+/**
+ * Two digest periods (this week and the week before) with some margin.
+ */
+const STATS_RETENTION_DAYS = 21;
+
+function getStatsKey(timestamp: number) {
+    return `stats:${new Date(timestamp).toISOString().slice(0, 10)}`;
+}
+
+/**
+ * Statistics are kept in one hash per day (post id => record), each expiring
+ * after the retention period, so that a digest only has to read a few keys.
+ */
+export function createRedisStatsStore(context: Context | TriggerContext): StatsStore {
+    const dayMs = 24 * 60 * 60 * 1000;
+
+    return {
+        addRecord: async (record: PostStatsRecord) => {
+            const key = getStatsKey(record.createdAt);
+            const expiresIn = record.createdAt - (record.createdAt % dayMs) + STATS_RETENTION_DAYS * dayMs - Date.now();
+
+            // edits of posts older than that would create a hash that never expires
+            if (expiresIn <= 0) {
+                return;
+            }
+
+            await context.redis.hset(key, { [record.postId]: JSON.stringify(record) });
+            await context.redis.expire(key, Math.ceil(expiresIn / 1000));
+        },
+        getRecords: async (from: number, to: number) => {
+            const keys: string[] = [];
+
+            for (let day = from - (from % dayMs); day < to; day += dayMs) {
+                keys.push(getStatsKey(day));
+            }
+
+            const hashes = await Promise.all(keys.map(key => context.redis.hgetall(key)));
+
+            return hashes
+                .flatMap(hash => Object.values(hash ?? {}).map(value => JSON.parse(value) as PostStatsRecord))
+                .filter(({ createdAt }) => createdAt >= from && createdAt < to);
+        },
+    };
+}
+
+const DISCOVERY_COUNTS_KEY = 'discovery:counts';
+const DISCOVERY_REVIEWS_KEY = 'discovery:reviews';
+
+/**
+ * Count the posts each unmatched domain or handle was seen in.
+ */
+export async function countDiscoveryCandidates(context: TriggerContext, candidates: DiscoveryCandidate[]) {
+    await Promise.all(candidates.map(candidate => context.redis.hincrby(DISCOVERY_COUNTS_KEY, getDiscoveryKey(candidate), 1)));
+}
+
+export async function getDiscoveryCounts(context: Context | TriggerContext) {
+    const counts = await context.redis.hgetall(DISCOVERY_COUNTS_KEY) ?? {};
+    return Object.fromEntries(Object.entries(counts).map(([key, count]) => [key, Number(count)]));
+}
+
+/**
+ * Reviewed candidates stay out of the queue for good, even if they keep showing up.
+ */
+export async function getDiscoveryReviews(context: Context | TriggerContext) {
+    return (await context.redis.hgetall(DISCOVERY_REVIEWS_KEY) ?? {}) as Record<string, DiscoveryReview>;
+}
+
+export async function setDiscoveryReview(context: Context | TriggerContext, key: string, review: DiscoveryReview) {
+    await context.redis.hset(DISCOVERY_REVIEWS_KEY, { [key]: review });
+}
+
+function getLookupUserKey(username: string) {
+    return `lookup-cooldown:user:${username.toLowerCase()}`;
+}
+
+function getLookupThreadKey(postId: string) {
+    return `lookup-cooldown:thread:${postId}`;
+}
+
+/**
+ * Check that neither the user nor the thread is in a lookup command cooldown,
+ * and start both cooldowns if so. A cooldown of 0 minutes is never active.
+ *
+ * NB: Each cooldown only starts if it isn't active yet (nx), so that lookups
+ * at the same time can't both pass. If the thread is in a cooldown, the user
+ * cooldown that was just started is ended again.
+ */
+export async function reserveLookup(context: TriggerContext, username: string, postId: string, userCooldownMinutes: number, threadCooldownMinutes: number) {
+    const cooldowns = [
+        { key: getLookupUserKey(username), minutes: userCooldownMinutes },
+        { key: getLookupThreadKey(postId), minutes: threadCooldownMinutes }
+    ].filter(({ minutes }) => minutes > 0);
+
+    const started: string[] = [];
+
+    for (const { key, minutes } of cooldowns) {
+        const result = await context.redis.set(key, '1', {
+            nx: true,
+            expiration: new Date(Date.now() + minutes * 60 * 1000)
+        });
+
+        if (!result) {
+            await Promise.all(started.map(startedKey => context.redis.del(startedKey)));
+            return false;
+        }
+
+        started.push(key);
+    }
+
+    return true;
+}
+
+export function isWithinRetention(createdAt: Date, retentionDays: number) {
+    return Date.now() - createdAt.getTime() < retentionDays * 24 * 60 * 60 * 1000;
+}
@@ -0,0 +1,178 @@
+import type { ValidationResult } from './types.js';
+
+type TemplateNode =
+    { type: 'text', value: string } |
+    { type: 'variable', name: string } |
+    { type: 'section', name: string, inverted: boolean, children: TemplateNode[] };
+
+export type TemplateValue = string | number | boolean | null | TemplateContext[];
+
+export type TemplateContext = {
+    [name: string]: TemplateValue;
+};
+
+/**
+ * Placeholders a template is allowed to use. Lists (which can only be used as
+ * sections and are rendered once per item) map to the placeholders of their items.
+ */
+export type TemplatePlaceholders = {
+    [name: string]: true | TemplatePlaceholders;
+};
+
+const TAG_REGEX = /\{\{\s*([#^/]?)\s*([a-zA-Z][a-zA-Z0-9_]*)\s*\}\}/g;
+
+/**
+ * Parse a mustache-like template. Supported tags:
+ *
+ * {{name}} - value of the placeholder
+ * {{#name}}...{{/name}} - render if the value is truthy, once per item for lists
+ * {{^name}}...{{/name}} - render if the value is falsy or an empty list
+ *
+ * NB: There is no HTML escaping, the output is markdown.
+ */
+export function parseTemplate(template: string) {
+    const root: TemplateNode[] = [];
+    const stack: { name: string, children: TemplateNode[] }[] = [{ name: '', children: root }];
+    let lastIndex = 0;
+
+    for (const match of template.matchAll(TAG_REGEX)) {
+        const [tag, modifier, name] = match;
+        const index = match.index;
+        const { children } = stack[stack.length - 1];
+
+        if (index > lastIndex) {
+            children.push({ type: 'text', value: template.slice(lastIndex, index) });
+        }
+
+        lastIndex = index + tag.length;
+
+        if (modifier === '#' || modifier === '^') {
+            const section: TemplateNode = { type: 'section', name, inverted: modifier === '^', children: [] };
+            children.push(section);
+            stack.push({ name, children: section.children });
+        }
+        else if (modifier === '/') {
+            if (stack.length === 1 || stack[stack.length - 1].name !== name) {
+                throw new Error(`Unexpected closing tag "${tag}".`);
+            }
+
+            stack.pop();
+        }
+        else {
+            children.push({ type: 'variable', name });
+        }
+    }
+
+    if (stack.length > 1) {
+        throw new Error(`Unclosed section "{{#${stack[stack.length - 1].name}}}".`);
+    }
+
+    if (lastIndex < template.length) {
+        root.push({ type: 'text', value: template.slice(lastIndex) });
+    }
+
+    return root;
+}
+
+function isTruthy(value: TemplateValue | undefined) {
+    if (Array.isArray(value)) {
+        return value.length > 0;
+    }
+
+    return value !== undefined && value !== null && value !== false && value !== '';
+}
+
+/**
+ * Same as Object.hasOwn, which isn't in the targeted ES version. Only own
+ * properties are placeholders, names like "constructor" or "toString"
+ * must not be found on the prototype.
+ */
+function hasOwn(object: object, name: string) {
+    return Object.prototype.hasOwnProperty.call(object, name);
+}
+
+/**
+ * Look up a placeholder starting from the innermost section.
+ */
+function lookup(stack: TemplateContext[], name: string) {
+    for (let i = stack.length - 1; i >= 0; i--) {
+        if (hasOwn(stack[i], name)) {
+            return stack[i][name];
+        }
+    }
+
+    return undefined;
+}
+
+function renderNodes(nodes: TemplateNode[], stack: TemplateContext[]): string {
+    return nodes
+        .map(node => {
+            if (node.type === 'text') {
+                return node.value;
+            }
+
+            const value = lookup(stack, node.name);
+
+            if (node.type === 'variable') {
+                return typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+            }
+
+            if (node.inverted) {
+                return isTruthy(value) ? '' : renderNodes(node.children, stack);
+            }
+
+            if (Array.isArray(value)) {
+                return value.map(item => renderNodes(node.children, [...stack, item])).join('');
+            }
+
+            return isTruthy(value) ? renderNodes(node.children, stack) : '';
+        })
+        .join('');
+}
+
+export function renderTemplate(template: string, context: TemplateContext) {
+    return renderNodes(parseTemplate(template), [context]);
+}
+
+function validateNodes(nodes: TemplateNode[], stack: TemplatePlaceholders[]): string | null {
+    for (const node of nodes) {
+        if (node.type === 'text') {
+            continue;
+        }
+
+        const placeholder = [...stack].reverse().find(placeholders => hasOwn(placeholders, node.name))?.[node.name];
+
+        if (!placeholder) {
+            return `Unknown placeholder "{{${node.name}}}".`;
+        }
+
+        if (node.type === 'variable') {
+            if (placeholder !== true) {
+                return `Placeholder "{{${node.name}}}" is a list and can only be used as a section.`;
+            }
+
+            continue;
+        }
+
+        const error = validateNodes(node.children, placeholder === true || node.inverted ? stack : [...stack, placeholder]);
+
+        if (error) {
+            return error;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Check that the template can be parsed and only uses known placeholders.
+ */
+export function validateTemplate(template: string, placeholders: TemplatePlaceholders): ValidationResult {
+    try {
+        const error = validateNodes(parseTemplate(template), [placeholders]);
+        return error ? { success: false, message: error } : { success: true };
+    }
+    catch (error) {
+        return { success: false, message: error instanceof Error ? error.message : String(error) };
+    }
+}
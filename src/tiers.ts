@@ -0,0 +1,57 @@
+import type { MessageKey } from './i18n.js';
+import { translate } from './i18n.js';
+import type { Language, Tier } from './types.js';
+
+/**
+ * The original 1-5 scale, used when the tiers setting is left empty.
+ */
+export const DEFAULT_TIERS: Tier[] = [
+    { id: 1, label: 'very reliable', order: 1, reliable: true, emoji: null },
+    { id: 2, label: 'reliable', order: 2, reliable: true, emoji: null },
+    { id: 3, label: 'unreliable', order: 3, reliable: false, emoji: '❗' },
+    { id: 4, label: 'very unreliable', order: 4, reliable: false, emoji: '❗' },
+    { id: 5, label: 'extremely unreliable', order: 5, reliable: false, emoji: '❗' },
+];
+
+/**
+ * Catalog messages of the default tier labels, other labels are shown as written.
+ */
+const DEFAULT_TIER_MESSAGES = new Map<string, MessageKey>([
+    ['very reliable', 'tierVeryReliable'],
+    ['reliable', 'tierReliable'],
+    ['unreliable', 'tierUnreliable'],
+    ['very unreliable', 'tierVeryUnreliable'],
+    ['extremely unreliable', 'tierExtremelyUnreliable'],
+]);
+
+export function getTier(tiers: Tier[], id: number) {
+    return tiers.find(tier => tier.id === id) ?? null;
+}
+
+/**
+ * Reliability label of a tier including its emoji, e.g. "❗ unreliable".
+ * Labels of the default tiers are translated to the given language.
+ */
+export function getTierLabel(tiers: Tier[], id: number, language: Language = 'en') {
+    const tier = getTier(tiers, id);
+
+    if (!tier) {
+        throw new Error(`Invalid tier: ${id}`);
+    }
+
+    const message = DEFAULT_TIER_MESSAGES.get(tier.label);
+    const label = message ? translate(language, message) : tier.label;
+
+    return tier.emoji ? `${tier.emoji} ${label}` : label;
+}
+
+export function isUnreliableTier(tiers: Tier[], id: number | null) {
+    return id !== null && getTier(tiers, id)?.reliable === false;
+}
+
+/**
+ * Sort order of a tier, sources without a (known) tier go last.
+ */
+export function getTierOrder(tiers: Tier[], id: number | null) {
+    return (id !== null ? getTier(tiers, id)?.order : undefined) ?? Number.MAX_SAFE_INTEGER;
+}
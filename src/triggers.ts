@@ -0,0 +1,191 @@
+import type { TriggerContext } from '@devvit/public-api';
+import type { CommentSubmit, PostSubmit, PostUpdate } from '@devvit/protos';
+import { submitComment, updateComment } from './comment.js';
+import { getDiscoveryCandidates } from './discovery.js';
+import { getAllSettings, getSettings, isIgnoredUser, processComment, processPost } from './helpers.js';
+import { parseLookupCommand, replyToLookup } from './lookup.js';
+import { findSourcesInComment, findSourcesInPost } from './matcher.js';
+import { applyModerationRules, evaluateModerationRules } from './moderation.js';
+import { createPostStatsRecord } from './stats.js';
+import { countDiscoveryCandidates, createLedgerEntry, createRedisStatsStore, getLedgerEntry, isWithinRetention, reserveLedgerEntry, reserveLookup, reservePostEvent, reserveThreadWarning, setLedgerEntry } from './storage.js';
+import { getCommentWarningSources, warnAboutComment } from './warnings.js';
+
+/**
+ * Report the sources of a new post, flair it and apply the moderation rules.
+ */
+export async function handlePostSubmit(event: PostSubmit, context: TriggerContext) {
+    if (!event.post?.id || !event.subreddit?.name || !event.author?.name) {
+        throw new Error('PostSubmit event missing post id, subreddit name or author name.');
+    }
+
+    /**
+     * Crossposts are analyzed (and reported) as their parent post.
+     */
+    const eventPost = await context.reddit.getPostById(event.post.id);
+    const post = event.post.crosspostParentId
+        ? await context.reddit.getPostById(event.post.crosspostParentId)
+        : eventPost;
+
+    const postData = processPost(post);
+    const settings = await getAllSettings(context);
+
+    if (isIgnoredUser(event.author.name, settings)) {
+        return;
+    }
+
+    /**
+     * Retried triggers have already been acted upon.
+     */
+    if (!await reservePostEvent(context, eventPost.id)) {
+        return;
+    }
+
+    const results = findSourcesInPost(postData, settings);
+
+    /**
+     * NB: The parent of a crosspost may have been reported already (by
+     * itself or an earlier crosspost), in which case its report comment
+     * and flair are left as they are.
+     */
+    const isNewReport = await reserveLedgerEntry(context, postData.id, settings.ledgerRetentionDays);
+
+    if (isNewReport) {
+        const entry = results
+            ? await submitComment({ postData, results, settings, context })
+            : createLedgerEntry({ commentId: null, flairText: null, results, settings });
+
+        await setLedgerEntry(context, postData.id, entry, settings.ledgerRetentionDays);
+    }
+
+    await createRedisStatsStore(context).addRecord(createPostStatsRecord({
+        postData: { ...postData, id: eventPost.id },
+        createdAt: eventPost.createdAt,
+        results,
+        settings
+    }));
+
+    /**
+     * NB: Only new reports are counted, so that edits and crossposts don't count the same post twice.
+     */
+    if (isNewReport && settings.discoveryThreshold > 0) {
+        await countDiscoveryCandidates(context, getDiscoveryCandidates(postData, results, settings));
+    }
+
+    /**
+     * NB: Rules are only applied to new posts, edits only update the report.
+     */
+    await applyModerationRules({
+        postId: event.post.id,
+        subredditName: event.subreddit.name,
+        triggered: evaluateModerationRules(results, settings),
+        context
+    });
+}
+
+/**
+ * Bring the report of an edited post up to date. Only body edits can change
+ * the outcome, so everything else (including the flair changes made by this
+ * app) is ignored.
+ */
+export async function handlePostUpdate(event: PostUpdate, context: TriggerContext) {
+    if (!event.post?.id || !event.subreddit?.name || !event.author?.name) {
+        throw new Error('PostUpdate event missing post id, subreddit name or author name.');
+    }
+
+    if (event.post.selftext === event.previousBody) {
+        return;
+    }
+
+    const post = await context.reddit.getPostById(event.post.id);
+    const postData = processPost(post);
+    const settings = await getAllSettings(context);
+
+    if (isIgnoredUser(event.author.name, settings)) {
+        return;
+    }
+
+    /**
+     * Ledger entries of older posts have expired, so there's no
+     * telling whether a report was already posted or not.
+     */
+    if (!isWithinRetention(post.createdAt, settings.ledgerRetentionDays)) {
+        return;
+    }
+
+    const results = findSourcesInPost(postData, settings);
+    const entry = await getLedgerEntry(context, postData.id);
+
+    /**
+     * NB: Without an entry, the post was processed before the ledger
+     * existed. A pending entry means it's still being processed, or
+     * failed halfway. Either way there's no telling whether a report
+     * was posted.
+     */
+    if (!entry || entry.pending) {
+        return;
+    }
+
+    await setLedgerEntry(
+        context,
+        postData.id,
+        await updateComment({ postData, results, entry, settings, context }),
+        settings.ledgerRetentionDays
+    );
+
+    await createRedisStatsStore(context).addRecord(createPostStatsRecord({ postData, createdAt: post.createdAt, results, settings }));
+}
+
+/**
+ * Answer a lookup command, or warn about the unreliable sources in a comment.
+ *
+ * NB: The cheap checks come first, most comments are neither, and
+ * loading the sources may fetch the wiki page.
+ */
+export async function handleCommentSubmit(event: CommentSubmit, context: TriggerContext) {
+    if (!event.comment?.id || !event.author?.name) {
+        throw new Error('CommentSubmit event missing comment id or author name.');
+    }
+
+    const parsedSettings = await getSettings(context);
+    const query = parsedSettings.lookupCommand ? parseLookupCommand(event.comment.body) : null;
+
+    if (!(query || parsedSettings.analyzeComments) || isIgnoredUser(event.author.name, parsedSettings)) {
+        return;
+    }
+
+    /**
+     * Don't warn about our own warnings (or report comments), or answer our own replies.
+     */
+    const appUser = await context.reddit.getAppUser();
+
+    if (appUser.username === event.author.name) {
+        return;
+    }
+
+    const commentData = processComment(event.comment);
+
+    /**
+     * NB: A lookup is answered (or not, in a cooldown) instead of warned about,
+     * the reply already says how reliable the source is.
+     */
+    if (query) {
+        if (await reserveLookup(context, event.author.name, commentData.postId, parsedSettings.lookupUserCooldownMinutes, parsedSettings.lookupThreadCooldownMinutes)) {
+            await replyToLookup({ commentId: commentData.id, query, settings: await getAllSettings(context), context });
+        }
+
+        return;
+    }
+
+    const settings = await getAllSettings(context);
+    const sources = getCommentWarningSources(findSourcesInComment(commentData, settings), settings);
+
+    if (sources.length === 0) {
+        return;
+    }
+
+    if (!await reserveThreadWarning(context, commentData.postId, settings.commentWarningLimit)) {
+        return;
+    }
+
+    await warnAboutComment({ commentData, sources, settings, context });
+}
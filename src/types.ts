@@ -1,16 +1,93 @@
-import type { PostCreate } from '@devvit/protos';
+import type { CommentSubmit, PostCreate } from '@devvit/protos';
 import type { Post } from '@devvit/public-api';
 import type { z } from 'zod';
-import type { processPost } from './index.js';
-import type { settingsSchema, sourceSchema } from './schema.js';
+import type { processComment, processPost } from './index.js';
+import type { aliasSchema, flairMappingSchema, languageSchema, moderationActionSchema, moderationRuleSchema, platformSchema, settingsSchema, sourceSchema, tierSchema } from './schema.js';
 
 export type AppSettings = z.infer<typeof settingsSchema>;
 export type Source = z.infer<typeof sourceSchema>;
+export type SourceAlias = z.infer<typeof aliasSchema>;
+export type Tier = z.infer<typeof tierSchema>;
+export type FlairMapping = z.infer<typeof flairMappingSchema>;
+export type ModerationRule = z.infer<typeof moderationRuleSchema>;
+export type ModerationAction = z.infer<typeof moderationActionSchema>;
+export type Platform = z.infer<typeof platformSchema>;
+export type Language = z.infer<typeof languageSchema>;
+export type SocialHandle = Source['handles'][number];
 
 export type RedditPostV1 = Post;
 export type RedditPostV2 = Exclude<PostCreate['post'], undefined>;
+export type RedditCommentV2 = Exclude<CommentSubmit['comment'], undefined>;
 
 export type PostData = ReturnType<typeof processPost>;
+export type CommentData = ReturnType<typeof processComment>;
+
+/**
+ * Where in the post a source was found.
+ */
+export type MatchLocation = 'title' | 'url' | 'link' | 'body';
+
+/**
+ * Which rule found it. "commonName" is the strict name:, (name)
+ * or [name] form used for sources with nameIsCommon, handles are
+ * matched by the platform they belong to and "pattern" is the
+ * custom pattern of a source.
+ */
+export type MatchRule = 'name' | 'commonName' | 'domain' | 'pattern' | Platform;
+
+export type LinkWrapperType = 'archive' | 'amp' | 'redirect' | 'shortener';
+
+/**
+ * Archive, AMP cache or redirect service a link was wrapped in.
+ */
+export type LinkWrapper = {
+    type: LinkWrapperType;
+    hostname: string;
+};
+
+/**
+ * A post URL or body link, with the wrapper it was unwrapped from (see unwrapUrl).
+ */
+export type Link = {
+    target: URL;
+    wrapper: LinkWrapper | null;
+};
+
+/**
+ * A "domains" entry of a source, parsed (see parseDomainRule).
+ *
+ * domain - the entry as written, e.g. "medium.com/@someone"
+ * hostname - lowercase hostname, matched by suffix
+ * path - lowercase path prefix without trailing slash, null for the whole site
+ * exclude - path prefixes (normalized the same way) that don't belong to the source
+ */
+export type DomainRule = {
+    domain: string;
+    hostname: string;
+    path: string | null;
+    exclude: string[];
+};
+
+export type Match = {
+    location: MatchLocation;
+    rule: MatchRule;
+    text: string;
+
+    /**
+     * Only for matches found in a wrapped link.
+     */
+    wrapper?: LinkWrapper;
+};
+
+/**
+ * A source found in a post, with the matches that led to it and the
+ * score of the best of them (see getMatchScore).
+ */
+export type SourceResult = {
+    source: Source;
+    matches: Match[];
+    score: number;
+};
 
 export type ValidationResult =
     { success: true } |
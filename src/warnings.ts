@@ -0,0 +1,68 @@
+import type { TriggerContext } from '@devvit/public-api';
+import { translate } from './i18n.js';
+import { getTierLabel, getTierOrder } from './tiers.js';
+import type { AppSettings, CommentData, Source, SourceResult } from './types.js';
+
+/**
+ * Reddit rejects report reasons longer than this.
+ */
+const REPORT_REASON_MAX_LENGTH = 100;
+
+/**
+ * Sources in a comment that are at or below the warning tier in reliability.
+ * Sources without a tier never trigger a warning.
+ */
+export function getCommentWarningSources(results: SourceResult[] | null, settings: AppSettings): Source[] {
+    const threshold = getTierOrder(settings.tiers, settings.commentWarningTier);
+
+    return (results ?? [])
+        .map(({ source }) => source)
+        .filter(source => source.tier !== null && getTierOrder(settings.tiers, source.tier) >= threshold);
+}
+
+/**
+ * Warning reply in the chosen language, with the tiers as configured.
+ */
+export function getCommentWarningMarkdown(sources: Source[], settings: AppSettings) {
+    const { language } = settings;
+
+    return [
+        translate(language, 'commentWarningHeader'),
+        sources.map(({ name, tier }) => tier !== null ? `- **${translate(language, 'tierName', { tier })}**: ${name} - ${getTierLabel(settings.tiers, tier, language)}` : `- ${name}`).join('\n'),
+        translate(language, 'commentWarningAdvice'),
+        settings.commentFooter,
+    ].filter(Boolean).join('\n\n');
+}
+
+export function getCommentReportReason(sources: Source[]) {
+    const reason = `Unreliable source(s): ${sources.map(({ name }) => name).join(', ')}`;
+
+    return reason.length > REPORT_REASON_MAX_LENGTH
+        ? `${reason.slice(0, REPORT_REASON_MAX_LENGTH - 1)}…`
+        : reason;
+}
+
+type WarnAboutCommentProps = {
+    commentData: CommentData;
+    sources: Source[];
+    settings: AppSettings;
+    context: TriggerContext;
+};
+
+/**
+ * Reply to the comment with a warning or report it, depending on the settings.
+ */
+export async function warnAboutComment({ commentData, sources, settings, context }: WarnAboutCommentProps) {
+    if (settings.commentWarningAction === 'report') {
+        const comment = await context.reddit.getCommentById(commentData.id);
+        await context.reddit.report(comment, { reason: getCommentReportReason(sources) });
+        return;
+    }
+
+    const reply = await context.reddit.submitComment({
+        id: commentData.id,
+        text: getCommentWarningMarkdown(sources, settings)
+    });
+
+    await reply.distinguish(false);
+}
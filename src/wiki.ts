@@ -0,0 +1,133 @@
+import type { Context, TriggerContext, WikiPage } from '@devvit/public-api';
+import { fromZodError } from 'zod-validation-error';
+import { sendModmail } from './helpers.js';
+import { refineSourceLint } from './linter.js';
+import { refineSourceTiers, settingsSchema } from './schema.js';
+import type { WikiSourcesRecord } from './storage.js';
+import { getWikiSourcesRecord, setWikiSourcesRecord } from './storage.js';
+import type { AppSettings, Source, Tier } from './types.js';
+
+/**
+ * Source lists in use by wiki page and revision, so that the list reference
+ * stays the same between events and the compiled matcher can be reused
+ * (see getSourceMatcher). The list depends on the tiers as well.
+ */
+const wikiSourcesCache = new Map<string, { revisionId: string, tiers: Tier[], sources: Source[] }>();
+
+/**
+ * The wiki page is fetched at most once a minute, events in between use
+ * the list from the last fetch (by installation, wiki page and tiers).
+ */
+const WIKI_FETCH_INTERVAL_MS = 60 * 1000;
+
+const wikiFetchCache = new Map<string, { fetchedAt: number, tiers: Tier[], sources: Source[] }>();
+
+/**
+ * Validate a source list the same way as the sources setting, including
+ * the lint errors and the check that every source uses a tier from the tier list.
+ *
+ * NB: The tier check only runs on a list that is otherwise valid, as zod
+ * still runs refinements after a failed preprocess (e.g. invalid JSON).
+ */
+export function parseSourceList(content: string, tiers: Tier[]) {
+    const schema = settingsSchema.shape.sources;
+    const parsed = schema.safeParse(content);
+
+    return parsed.success
+        ? schema
+            .superRefine(refineSourceLint)
+            .superRefine((sources, ctx) => refineSourceTiers({ sources, tiers }, ctx))
+            .safeParse(content)
+        : parsed;
+}
+
+/**
+ * The last good revision of the list, or the sources setting if there has
+ * never been one (or it no longer validates, e.g. after the tiers changed).
+ */
+function getFallbackSources(record: WikiSourcesRecord, settings: AppSettings) {
+    const fallback = record.content ? parseSourceList(record.content, settings.tiers) : null;
+    return fallback?.success ? fallback.data : settings.sources;
+}
+
+/**
+ * Load the source list from the configured wiki page. A revision that fails
+ * validation is reported to modmail (once) and the last good revision is used
+ * instead, or the sources setting if there has never been one. If the page
+ * can't be fetched, the list already in use is kept, or the same fallback is
+ * used if there is none yet (e.g. right after the app was restarted).
+ */
+export async function getWikiSources(context: Context | TriggerContext, settings: AppSettings) {
+    const fetchKey = `${context.subredditId}:${settings.sourcesWikiSubreddit.toLowerCase()}:${settings.sourcesWikiPage}`;
+    const fetched = wikiFetchCache.get(fetchKey);
+
+    if (fetched?.tiers === settings.tiers && Date.now() - fetched.fetchedAt < WIKI_FETCH_INTERVAL_MS) {
+        return fetched.sources;
+    }
+
+    const sources = await fetchWikiSources(context, settings);
+    wikiFetchCache.set(fetchKey, { fetchedAt: Date.now(), tiers: settings.tiers, sources });
+
+    return sources;
+}
+
+async function fetchWikiSources(context: Context | TriggerContext, settings: AppSettings) {
+    const page = settings.sourcesWikiPage;
+    const { name: currentSubredditName } = await context.reddit.getCurrentSubreddit();
+    const subredditName = settings.sourcesWikiSubreddit || currentSubredditName;
+    const cacheKey = `${subredditName.toLowerCase()}:${page}`;
+
+    const cached = wikiSourcesCache.get(cacheKey);
+    let wikiPage: WikiPage;
+
+    try {
+        wikiPage = await context.reddit.getWikiPage(subredditName, page);
+    }
+    catch (error) {
+        console.error(error);
+
+        if (cached) {
+            return cached.sources;
+        }
+
+        /**
+         * NB: Cached without a revision, so that the page is parsed
+         * as soon as it can be fetched again.
+         */
+        const sources = getFallbackSources(await getWikiSourcesRecord(context, subredditName, page), settings);
+        wikiSourcesCache.set(cacheKey, { revisionId: '', tiers: settings.tiers, sources });
+
+        return sources;
+    }
+
+    if (cached?.revisionId === wikiPage.revisionId && cached.tiers === settings.tiers) {
+        return cached.sources;
+    }
+
+    const record = await getWikiSourcesRecord(context, subredditName, page);
+    const parsed = parseSourceList(wikiPage.content, settings.tiers);
+
+    if (parsed.success) {
+        wikiSourcesCache.set(cacheKey, { revisionId: wikiPage.revisionId, tiers: settings.tiers, sources: parsed.data });
+        await setWikiSourcesRecord(context, subredditName, page, { revisionId: wikiPage.revisionId, content: wikiPage.content, failedRevisionId: null });
+
+        return parsed.data;
+    }
+
+    if (record.failedRevisionId !== wikiPage.revisionId) {
+        await setWikiSourcesRecord(context, subredditName, page, { ...record, failedRevisionId: wikiPage.revisionId });
+        await sendModmail(
+            context,
+            currentSubredditName,
+            'Invalid source list in wiki',
+            `Revision ${wikiPage.revisionId} of the source list at https://www.reddit.com/r/${subredditName}/wiki/${page} is invalid, ` +
+            `${record.content ? `the previous revision (${record.revisionId}) is still in use` : 'the sources setting is used instead'}. Error:\n\n${fromZodError(parsed.error)}`
+        );
+    }
+
+    const sources = getFallbackSources(record, settings);
+
+    wikiSourcesCache.set(cacheKey, { revisionId: wikiPage.revisionId, tiers: settings.tiers, sources });
+
+    return sources;
+}
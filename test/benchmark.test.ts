@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'vitest';
+import { findSourcesInPost, getSourceMatcher, processPost } from '../src/index.js';
+import type { RedditPostV1 } from '../src/types.js';
+import { createSettings, createSource } from './fixtures.js';
+
+const SOURCE_COUNT = 5000;
+const POST_COUNT = 1000;
+
+/**
+ * Generous on purpose, this catches accidental quadratic matching,
+ * not small slowdowns (or slow CI machines).
+ */
+const MATCH_TIME_BUDGET = 30000;
+
+function createBenchmarkSettings() {
+    const sources = Array.from({ length: SOURCE_COUNT }, (_, i) => createSource({
+        id: `source-${i}`,
+        name: `Sóurce ${i} Name`,
+        nameIsCommon: i % 2 === 0,
+        aliases: [{ name: `SRC${i}`, nameIsCommon: true }],
+        type: 'journalist',
+        tier: (i % 5) + 1,
+        twitter: `handle_${i}`,
+        domains: [`outlet${i}.com`, `outlet${i}.es`]
+    }));
+
+    return createSettings(sources);
+}
+
+/**
+ * Each post references four different sources in four different ways.
+ */
+function createPost(k: number) {
+    const [a, b, c, d] = [k, k + 1, k + 2, k + 3].map(i => (i * 7919) % SOURCE_COUNT);
+
+    const post = {
+        id: `t3_${k}`,
+        subredditName: 'test',
+        title: `[SRC${a}] Transfer news roundup`,
+        url: `https://www.outlet${b}.com/article/${k}`,
+        body: `According to @handle_${c}, more details soon: https://x.com/handle_${d}/status/${k}`
+    } as RedditPostV1;
+
+    return {
+        postData: processPost(post),
+        expected: [a, b, c, d].map(i => `source-${i}`)
+    };
+}
+
+describe('benchmark', () => {
+    test(`${SOURCE_COUNT} sources, ${POST_COUNT} posts`, () => {
+        const settings = createBenchmarkSettings();
+        const posts = Array.from({ length: POST_COUNT }, (_, k) => createPost(k));
+        const matcher = getSourceMatcher(settings.sources);
+
+        const matchStart = performance.now();
+        const results = posts.map(({ postData }) => findSourcesInPost(postData, settings));
+        const matchTime = performance.now() - matchStart;
+
+        expect(getSourceMatcher(settings.sources)).toBe(matcher);
+        expect(results.map(result => result?.map(({ source }) => source.id).sort())).toEqual(posts.map(({ expected }) => expected.sort()));
+        expect(matchTime).toBeLessThan(MATCH_TIME_BUDGET);
+    }, MATCH_TIME_BUDGET * 2);
+});
@@ -0,0 +1,103 @@
+import { describe, expect, test } from 'vitest';
+import { DEFAULT_COMMENT_TEMPLATE, getCommentMarkdown, validateSetting, validateSourceTiers } from '../src/index.js';
+import type { SourceResult, Tier } from '../src/types.js';
+import { createSettings, createSource } from './fixtures.js';
+
+const warning = '❗ Readers beware: This post contains information from unreliable and/or untrustworthy source(s). As such, we highly encourage our userbase to question the authenticity of any claims or quotes presented by it before jumping into conclusions or taking things as a fact.';
+
+function createResults(...sources: ReturnType<typeof createSource>[]): SourceResult[] {
+    return sources.map(source => ({ source, matches: [{ location: 'title', rule: 'name', text: source.nameNormalized }], score: 70 }));
+}
+
+describe('getCommentMarkdown', () => {
+    test('default template', () => {
+        const results = createResults(
+            createSource({ name: 'Journalist', tier: 1, twitter: 'journo', domains: ['journo.com'] }),
+            createSource({ name: 'Media', tier: 2, type: 'media', domains: ['media.com', 'media.es'] }),
+            createSource({ name: 'Unknown', tier: 3 }),
+            createSource({ name: 'Tabloid', tier: 4, type: 'media', domains: ['tabloid.com'] }),
+            createSource({ name: 'Rumours', tier: 5, twitter: 'rumours' }),
+            createSource({ name: 'Aggregator', type: 'aggregator', twitter: 'aggr' }),
+        );
+
+        expect(getCommentMarkdown(results, createSettings([]))).toEqual([
+            '**Media reliability report:**',
+            '- **Tier 1**: Journalist ([@journo](https://twitter.com/journo)) - very reliable',
+            '- **Tier 2**: Media ([media.com](https://media.com)) - reliable',
+            '- **Tier 3**: Unknown - ❗ unreliable',
+            '- **Tier 4**: Tabloid ([tabloid.com](https://tabloid.com)) - ❗ very unreliable',
+            '- **Tier 5**: Rumours ([@rumours](https://twitter.com/rumours)) - ❗ extremely unreliable',
+            '- **Aggregator**: Aggregator ([@aggr](https://twitter.com/aggr))',
+            warning,
+        ].join('\n\n'));
+    });
+
+    test('default template with organizations', () => {
+        const marca = createSource({ id: 'marca', name: 'Marca', tier: 3, type: 'media' });
+        const results = createResults(createSource({ name: 'Journalist', tier: 2, organization: 'marca' }), marca);
+
+        expect(getCommentMarkdown(results, createSettings([marca]))).toEqual([
+            '**Media reliability report:**',
+            '- **Tier 2**: Journalist (Marca) - reliable',
+            '- **Tier 3**: Marca - ❗ unreliable',
+            warning,
+        ].join('\n\n'));
+    });
+
+    test('default template without warning, with footer and match details', () => {
+        const results = createResults(createSource({ name: 'Journalist', tier: 1 }));
+        const settings = createSettings([], { commentFooter: '^(footer)', showMatchDetails: true });
+
+        expect(getCommentMarkdown(results, settings)).toEqual([
+            '**Media reliability report:**',
+            '- **Tier 1**: Journalist - very reliable *(matched name "journalist" in title)*',
+            '^(footer)',
+        ].join('\n\n'));
+    });
+
+    test('custom template', () => {
+        const results = createResults(
+            createSource({ name: 'Journalist', tier: 1, organization: 'Media' }),
+            createSource({ name: 'Aggregator', type: 'aggregator' }),
+        );
+        const settings = createSettings([], {
+            commentTemplate: '{{#sources}}{{#journalist}}{{name}} ({{organization}}): {{label}}\n{{/journalist}}{{#aggregator}}{{name}} is an aggregator\n{{/aggregator}}{{/sources}}{{^warning}}All good{{/warning}}'
+        });
+
+        expect(getCommentMarkdown(results, settings)).toEqual('Journalist (Media): very reliable\nAggregator is an aggregator\nAll good');
+        expect(getCommentMarkdown(results, createSettings([], { commentTemplate: DEFAULT_COMMENT_TEMPLATE }))).toEqual(getCommentMarkdown(results, createSettings([])));
+    });
+});
+
+describe('custom tiers', () => {
+    const tiers: Tier[] = [
+        { id: 10, label: 'trusted', order: 1, reliable: true, emoji: '✅' },
+        { id: 20, label: 'questionable', order: 2, reliable: true, emoji: null },
+        { id: 30, label: 'fake news', order: 3, reliable: false, emoji: '⛔' },
+    ];
+
+    test('labels and warning', () => {
+        const settings = createSettings([], { tiers, commentTemplate: '{{#sources}}{{tier}}: {{label}}\n{{/sources}}{{#warning}}warning{{/warning}}' });
+
+        expect(getCommentMarkdown(createResults(createSource({ tier: 10 }), createSource({ tier: 20 })), settings)).toEqual('10: ✅ trusted\n20: questionable\n');
+        expect(getCommentMarkdown(createResults(createSource({ tier: 30 })), settings)).toEqual('30: ⛔ fake news\nwarning');
+    });
+
+    test('ids are positive whole numbers', () => {
+        const withId = (id: number) => JSON.stringify([{ ...tiers[0], id }]);
+
+        expect(validateSetting('tiers', withId(1))).toBeUndefined();
+        expect(validateSetting('tiers', withId(0))).toBeDefined();
+        expect(validateSetting('tiers', withId(-1))).toBeDefined();
+        expect(validateSetting('tiers', withId(1.5))).toBeDefined();
+    });
+
+    test('validateSourceTiers', () => {
+        const sources = (tier: number) => JSON.stringify([{ id: 'foo', name: 'foo', nameIsCommon: false, type: 'media', tier, organization: null, twitter: null, domains: null }]);
+
+        expect(validateSourceTiers(sources(10), JSON.stringify(tiers))).toBeUndefined();
+        expect(validateSourceTiers(sources(5), undefined)).toBeUndefined();
+        expect(validateSourceTiers(sources(5), JSON.stringify(tiers))).toContain('Source "foo" has tier 5 which is not in the tier list.');
+        expect(validateSourceTiers(sources(10), '[]')).toContain('Source "foo" has tier 10 which is not in the tier list.');
+    });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, test } from 'vitest';
+import { buildDiagnosticReport, findSourcesInPost } from '../src/index.js';
+import { createPostData, createSettings, createSource } from './fixtures.js';
+
+describe('buildDiagnosticReport', () => {
+    test('post with sources', () => {
+        const settings = createSettings([
+            createSource({ id: 'marca', name: 'Marca', nameIsCommon: true, tier: 3, type: 'media', domains: ['marca.com'] })
+        ]);
+        const postData = createPostData({
+            title: 'Barça news',
+            url: 'https://www.marca.com/futbol/barcelona.html',
+            body: 'First line\nSecond line https://example.com/foo'
+        });
+        const results = findSourcesInPost(postData, settings);
+
+        expect(buildDiagnosticReport({ postData, results, settings })).toEqual([
+            '**Media reliability analysis for https://redd.it/test**',
+            '**Normalized title:**\n\n> barca news',
+            '**Normalized body:**\n\n> first line\n> second line https://example.com/foo',
+            '**Post URL:** https://www.marca.com/futbol/barcelona.html',
+            '**Extracted links:**\n\n- https://example.com/foo',
+            '**Matched sources:**\n\n- **Marca** (id: `marca`, media, Tier 3, score 100)\n    - domain "www.marca.com" in post URL',
+            '**Flair:** `Tier 3` based on Marca',
+            '**Moderation rules:**\n\n*No moderation rules triggered.*',
+            '**Comment:**\n\n> **Media reliability report:**\n> \n> - **Tier 3**: Marca ([marca.com](https://marca.com)) - ❗ unreliable\n> \n> ❗ Readers beware: This post contains information from unreliable and/or untrustworthy source(s). As such, we highly encourage our userbase to question the authenticity of any claims or quotes presented by it before jumping into conclusions or taking things as a fact.',
+        ].join('\n\n'));
+    });
+
+    test('post without sources', () => {
+        const settings = createSettings([]);
+        const postData = createPostData({ title: 'Match thread', url: 'https://www.reddit.com/r/test/comments/test' });
+        const report = buildDiagnosticReport({ postData, results: findSourcesInPost(postData, settings), settings });
+
+        expect(report).toContain('**Normalized body:**\n\n*No body.*');
+        expect(report).toContain('**Post URL:** *None (self-post or reddit link).*');
+        expect(report).toContain('**Matched sources:**\n\n*No sources found.*');
+        expect(report).toContain('**Flair:** *Post would not be flaired.*');
+        expect(report).toContain('**Comment:**\n\n*No comment would be posted.*');
+    });
+});
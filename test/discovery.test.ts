@@ -0,0 +1,108 @@
+import type { TriggerContext } from '@devvit/public-api';
+import { describe, expect, test } from 'vitest';
+import { buildDiscoveryQueue, countDiscoveryCandidates, createDraftSource, describeDiscoveryItem, findSourcesInPost, getDiscoveryCandidates, getDiscoveryCounts, getDiscoveryReviews, parseDiscoveryKey, setDiscoveryReview, sourceSchema } from '../src/index.js';
+import { createPostData, createSettings, createSource } from './fixtures.js';
+
+const sources = [
+    createSource({ id: 'romano', name: 'Fabrizio Romano', tier: 1, twitter: 'FabrizioRomano' }),
+    createSource({ id: 'marca', name: 'Marca', nameIsCommon: true, tier: 3, type: 'media', domains: ['marca.com'] }),
+];
+
+function createRedis() {
+    const hashes = new Map<string, Record<string, string>>();
+
+    return {
+        hincrby: (key: string, field: string, value: number) => {
+            const hash = hashes.get(key) ?? {};
+            hash[field] = String(Number(hash[field] ?? 0) + value);
+            hashes.set(key, hash);
+            return Promise.resolve(Number(hash[field]));
+        },
+        hset: (key: string, fieldValues: Record<string, string>) => {
+            hashes.set(key, { ...hashes.get(key), ...fieldValues });
+            return Promise.resolve(Object.keys(fieldValues).length);
+        },
+        hgetall: (key: string) => Promise.resolve(hashes.get(key)),
+    };
+}
+
+describe('getDiscoveryCandidates', () => {
+    test('unmatched domains and handles', () => {
+        const settings = createSettings(sources);
+        const postData = createPostData({
+            title: 'Fabrizio Romano: here we go',
+            url: 'https://www.newoutlet.com/news/1',
+            body: [
+                'https://x.com/FabrizioRomano/status/1',
+                'https://x.com/NewJournalist/status/2',
+                'https://x.com/i/status/3',
+                'https://bsky.app/profile/someone.bsky.social',
+                'https://marca.com/futbol',
+                'https://newoutlet.com/news/2',
+            ].join(' ')
+        });
+
+        expect(getDiscoveryCandidates(postData, findSourcesInPost(postData, settings), settings)).toEqual([
+            { kind: 'domain', value: 'newoutlet.com' },
+            { kind: 'twitter', value: 'NewJournalist' },
+            { kind: 'bluesky', value: 'someone.bsky.social' },
+        ]);
+    });
+});
+
+describe('discovery queue', () => {
+    test('threshold, reviews and order', () => {
+        const queue = buildDiscoveryQueue(
+            { 'domain:a.com': 3, 'domain:b.com': 7, 'twitter:someone': 3, 'domain:c.com': 2, 'domain:d.com': 9, 'unknown:x': 10 },
+            { 'domain:d.com': 'dismissed' },
+            3
+        );
+
+        expect(queue.map(describeDiscoveryItem)).toEqual(['b.com (7 posts)', 'a.com (3 posts)', 'Twitter @someone (3 posts)']);
+    });
+
+    test('storage', async () => {
+        const context = { redis: createRedis() } as unknown as TriggerContext;
+
+        await countDiscoveryCandidates(context, [{ kind: 'domain', value: 'a.com' }, { kind: 'twitter', value: 'Someone' }]);
+        await countDiscoveryCandidates(context, [{ kind: 'domain', value: 'a.com' }]);
+        await setDiscoveryReview(context, 'twitter:someone', 'dismissed');
+
+        expect(await getDiscoveryCounts(context)).toEqual({ 'domain:a.com': 2, 'twitter:someone': 1 });
+        expect(await getDiscoveryReviews(context)).toEqual({ 'twitter:someone': 'dismissed' });
+    });
+
+    test('parseDiscoveryKey', () => {
+        expect(parseDiscoveryKey('domain:a.com')).toEqual({ kind: 'domain', value: 'a.com' });
+        expect(parseDiscoveryKey('youtube:someone')).toEqual({ kind: 'youtube', value: 'someone' });
+        expect(parseDiscoveryKey('toString:x')).toBeNull();
+        expect(parseDiscoveryKey('domain:')).toBeNull();
+    });
+});
+
+describe('createDraftSource', () => {
+    test('domain', () => {
+        const draft = createDraftSource({ kind: 'domain', value: 'news.marca.com' }, sources);
+
+        expect(draft).toEqual({
+            id: 'marca-2',
+            name: 'Marca',
+            nameIsCommon: false,
+            aliases: [],
+            type: 'media',
+            tier: null,
+            organization: null,
+            twitter: null,
+            socials: {},
+            domains: ['news.marca.com'],
+        });
+        expect(sourceSchema.safeParse(draft).success).toBe(true);
+    });
+
+    test('handle', () => {
+        const draft = createDraftSource({ kind: 'bluesky', value: 'someone.bsky.social' }, sources);
+
+        expect(draft).toMatchObject({ id: 'someone', name: 'someone.bsky.social', type: 'journalist', socials: { bluesky: 'someone.bsky.social' }, domains: null });
+        expect(sourceSchema.safeParse(draft).success).toBe(true);
+    });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, test } from 'vitest';
+import { describeMatch, findSourcesInPost, lintSources, parseDomainRule } from '../src/index.js';
+import { createPostData, createSettings, createSource } from './fixtures.js';
+
+describe('parseDomainRule', () => {
+    test('plain domains and path prefixes', () => {
+        expect(parseDomainRule('marca.com')).toEqual({ domain: 'marca.com', hostname: 'marca.com', path: null, exclude: [] });
+        expect(parseDomainRule('medium.com/@Someone/')).toEqual({ domain: 'medium.com/@Someone/', hostname: 'medium.com', path: '/@someone', exclude: [] });
+        expect(parseDomainRule({ domain: 'marca.com', exclude: ['/en/blogs/'] })).toEqual({ domain: 'marca.com', hostname: 'marca.com', path: null, exclude: ['/en/blogs'] });
+    });
+});
+
+describe('path-scoped domains', () => {
+    const marca = createSource({ id: 'marca', name: 'Marca', nameIsCommon: true, tier: 3, type: 'media', domains: [{ domain: 'marca.com', exclude: ['/en/blogs'] }] });
+    const blogs = createSource({ id: 'blogs', name: 'Marca blogs', tier: 5, type: 'media', domains: ['marca.com/blogs', 'marca.com/en/blogs'] });
+    const someone = createSource({ id: 'someone', name: 'Someone', tier: 4, domains: ['medium.com/@someone'] });
+    const english = createSource({ id: 'english', name: 'Marca in English', tier: 2, type: 'media', domains: ['en.marca.com'] });
+    const settings = createSettings([marca, blogs, someone, english]);
+
+    test.each([
+        ['https://www.marca.com/futbol/barcelona.html', 'marca domain "www.marca.com" in post URL'],
+        ['https://www.marca.com/blogs/el-blog/1.html', 'blogs domain "www.marca.com/blogs" in post URL'],
+        ['https://www.marca.com/BLOGS/', 'blogs domain "www.marca.com/blogs" in post URL'],
+        ['https://www.marca.com/blogsx/1.html', 'marca domain "www.marca.com" in post URL'],
+        ['https://www.marca.com/en/blogs/1.html', 'blogs domain "www.marca.com/en/blogs" in post URL'],
+        ['https://www.marca.com/en/futbol.html', 'marca domain "www.marca.com" in post URL'],
+        ['https://en.marca.com/blogs/1.html', 'english domain "en.marca.com" in post URL'],
+        ['https://medium.com/@someone/article-123', 'someone domain "medium.com/@someone" in post URL'],
+        ['https://medium.com/@someone-else/article-123', null],
+        ['https://medium.com/', null],
+    ])('%s', (url, expected) => {
+        const results = findSourcesInPost(createPostData({ title: 'News', url }), settings);
+        const descriptions = results?.flatMap(({ source, matches }) => matches.map(match => `${source.id} ${describeMatch(match)}`)) ?? [];
+
+        expect(descriptions).toEqual(expected ? [expected] : []);
+    });
+
+    test('lint', () => {
+        expect(lintSources([
+            marca,
+            blogs,
+            createSource({ id: 'a', name: 'Source A', domains: ['marca.com/blogs/', { domain: 'marca.com/news', exclude: ['/sport', 'news/old'] }] }),
+        ]).map(({ index, message }) => `${index}: ${message}`)).toEqual([
+            '2: Duplicate domain "marca.com/blogs/" (also used by sources[1] "blogs").',
+            '2: Excluded path "/sport" is not under domain "marca.com/news".',
+            '2: Excluded path "news/old" of domain "marca.com/news" must start with "/".',
+        ]);
+    });
+});
@@ -0,0 +1,79 @@
+import { processPost, settingsSchema, sourceSchema } from '../src/index.js';
+import type { AppSettings, RedditPostV1, Source, SourceAlias } from '../src/types.js';
+
+/**
+ * Disallow passing normalized values directly to the function.
+ */
+type CreateSourceParams = {
+    [key in keyof Omit<Source, 'nameNormalized' | 'twitterNormalized' | 'handles' | 'domainRules' | 'contextKeywordsNormalized' | 'negativeKeywordsNormalized' | 'aliases'>]+?: Source[key]
+} & {
+    aliases?: Pick<SourceAlias, 'name' | 'nameIsCommon'>[]
+};
+
+export function createSource(params: CreateSourceParams) {
+    return sourceSchema.parse(({
+        id: params.id ?? Math.random().toString(),
+        name: params.name ?? 'name',
+        nameIsCommon: params.nameIsCommon ?? false,
+        aliases: params.aliases ?? [],
+        type: params.type ?? 'journalist',
+        tier: params.tier ?? null,
+        organization: params.organization ?? null,
+        twitter: params.twitter ?? null,
+        socials: params.socials ?? {},
+        domains: params.domains ?? null,
+        pattern: params.pattern ?? null,
+        contextKeywords: params.contextKeywords ?? [],
+        requireContext: params.requireContext ?? false,
+        negativeKeywords: params.negativeKeywords ?? [],
+    })) satisfies Source;
+}
+
+/**
+ * Setting values as returned by context.settings.getAll.
+ */
+export const SETTING_VALUES = {
+    sources: '[]',
+    sourcesWikiPage: '',
+    sourcesWikiSubreddit: '',
+    tiers: '[]',
+    inheritOrganizationTier: false,
+    flairTemplateId: '',
+    flairCssClass: '',
+    flairMappings: '[]',
+    flairPolicy: ['mostReliable'],
+    moderationRules: '[]',
+    commentFooter: '',
+    commentTemplate: '',
+    language: ['en'],
+    multilingualReport: false,
+    analyzeNamesInBody: true,
+    analyzeTwitterInBody: true,
+    analyzeLinksInBody: true,
+    matchScoreThreshold: 50,
+    showMatchDetails: false,
+    analyzeComments: false,
+    commentWarningTier: 4,
+    commentWarningAction: ['reply'],
+    commentWarningLimit: 3,
+    ignoredUsers: 'AutoModerator',
+    lookupCommand: false,
+    lookupUserCooldownMinutes: 10,
+    lookupThreadCooldownMinutes: 2,
+    discoveryThreshold: 5,
+    statsDigest: ['off'],
+    errorReportSubredditName: '',
+    ledgerRetentionDays: 90
+};
+
+export function createSettings(sources: Source[], overrides: Partial<AppSettings> = {}) {
+    return {
+        ...settingsSchema.parse(SETTING_VALUES),
+        sources,
+        ...overrides
+    };
+}
+
+export function createPostData(post: { title: string, url: string, body?: string }) {
+    return processPost({ id: 't3_test', subredditName: 'test', ...post } as unknown as RedditPostV1);
+}
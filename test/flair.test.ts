@@ -0,0 +1,102 @@
+import type { TriggerContext } from '@devvit/public-api';
+import { describe, expect, test, vi } from 'vitest';
+import { findSourcesInPost, getFlair, getFlairSource, shouldFlairPost, updateFlair, validateSetting } from '../src/index.js';
+import type { AppSettings, FlairMapping } from '../src/types.js';
+import { createPostData, createSettings, createSource } from './fixtures.js';
+
+const flairMappings: FlairMapping[] = [
+    { tiers: [1], types: null, flairTemplateId: 'green', flairCssClass: 'green', text: null },
+    { tiers: [4, 5], types: null, flairTemplateId: 'red', flairCssClass: null, text: 'Tier {{tier}} ({{label}})' },
+    { tiers: null, types: ['aggregator'], flairTemplateId: 'grey', flairCssClass: 'grey', text: '{{typeLabel}}: {{name}}' },
+];
+
+describe('getFlair', () => {
+    test('without mappings', () => {
+        const settings = createSettings([], { flairTemplateId: 'default', flairCssClass: 'css' });
+
+        expect(getFlair(createSource({ tier: 2 }), settings)).toEqual({ text: 'Tier 2', flairTemplateId: 'default', cssClass: 'css' });
+        expect(getFlair(createSource({ type: 'aggregator' }), settings)).toEqual({ text: 'Aggregator', flairTemplateId: 'default', cssClass: 'css' });
+        expect(getFlair(createSource({ type: 'media' }), settings)).toBeNull();
+    });
+
+    test('with mappings', () => {
+        const settings = createSettings([], { flairTemplateId: 'default', flairCssClass: 'css', flairMappings });
+
+        expect(getFlair(createSource({ tier: 1 }), settings)).toEqual({ text: 'Tier 1', flairTemplateId: 'green', cssClass: 'green' });
+        expect(getFlair(createSource({ tier: 2 }), settings)).toEqual({ text: 'Tier 2', flairTemplateId: 'default', cssClass: 'css' });
+        expect(getFlair(createSource({ tier: 5 }), settings)).toEqual({ text: 'Tier 5 (❗ extremely unreliable)', flairTemplateId: 'red', cssClass: 'css' });
+        expect(getFlair(createSource({ name: 'Aggr', type: 'aggregator' }), settings)).toEqual({ text: 'Aggregator: Aggr', flairTemplateId: 'grey', cssClass: 'grey' });
+    });
+});
+
+describe('shouldFlairPost', () => {
+    test('aggregators are only flaired with a mapping', () => {
+        const postData = createPostData({ title: 'title', url: 'https://example.com' });
+        const results = [{ source: createSource({ type: 'aggregator' }), matches: [], score: 100 }];
+
+        expect(shouldFlairPost(postData, results, createSettings([]))).toBe(false);
+        expect(shouldFlairPost(postData, results, createSettings([], { flairMappings }))).toBe(true);
+    });
+});
+
+describe('flairPolicy', () => {
+    const sources = [
+        createSource({ id: 'journalist', name: 'Fabrizio Romano', tier: 1 }),
+        createSource({ id: 'media', name: 'Marca', nameIsCommon: true, tier: 3, type: 'media', domains: ['marca.com'] }),
+        createSource({ id: 'aggregator', name: 'Aggr', nameIsCommon: true, type: 'aggregator' }),
+    ];
+
+    const postData = createPostData({
+        title: 'Aggr: Fabrizio Romano confirms the deal',
+        url: 'https://www.marca.com/futbol/barcelona.html'
+    });
+
+    function getFlairSourceId(settings: AppSettings) {
+        return getFlairSource(findSourcesInPost(postData, settings) ?? [], settings)?.id;
+    }
+
+    test.each([
+        ['mostReliable', 'journalist'],
+        ['leastReliable', 'media'],
+        ['primary', 'media'],
+    ] as const)('%s', (flairPolicy, expected) => {
+        expect(getFlairSourceId(createSettings(sources, { flairPolicy }))).toBe(expected);
+    });
+
+    test('primary falls back to the title', () => {
+        const settings = createSettings(sources.slice(0, 1), { flairPolicy: 'primary' });
+        expect(getFlairSourceId(settings)).toBe('journalist');
+    });
+
+    test('sources without a tier are only used when nothing else can be', () => {
+        const settings = createSettings([sources[2]], { flairPolicy: 'leastReliable', flairMappings });
+        expect(getFlairSourceId(settings)).toBe('aggregator');
+        expect(getFlairSourceId(createSettings(sources, { flairPolicy: 'leastReliable', flairMappings }))).toBe('media');
+    });
+
+    test('updateFlair flairs the post with the selected source', async () => {
+        const settings = createSettings(sources, { flairPolicy: 'leastReliable', flairTemplateId: 'template' });
+        const setPostFlair = vi.fn();
+        const context = { reddit: { setPostFlair } } as unknown as TriggerContext;
+
+        const text = await updateFlair({ postData, results: findSourcesInPost(postData, settings) ?? [], settings, context });
+
+        expect(text).toBe('Tier 3');
+        expect(setPostFlair).toHaveBeenCalledWith({
+            postId: 't3_test',
+            subredditName: 'test',
+            text: 'Tier 3',
+            cssClass: '',
+            flairTemplateId: 'template'
+        });
+    });
+
+});
+
+describe('validateSetting', () => {
+    test('flairMappings', () => {
+        expect(validateSetting('flairMappings', JSON.stringify(flairMappings))).toBeUndefined();
+        expect(validateSetting('flairMappings', JSON.stringify([{ ...flairMappings[0], text: '{{domain}}' }]))).toContain('Unknown placeholder "{{domain}}"');
+        expect(validateSetting('flairMappings', JSON.stringify([{ ...flairMappings[0], types: ['blog'] }]))).toBeDefined();
+    });
+});
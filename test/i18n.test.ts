@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'vitest';
+import { CATALOGS, LANGUAGES, getCommentMarkdown, getFlair, getReportLanguages, getTierLabel, translate } from '../src/index.js';
+import type { SourceResult, Tier } from '../src/types.js';
+import { createSettings, createSource } from './fixtures.js';
+
+function createResults(...sources: ReturnType<typeof createSource>[]): SourceResult[] {
+    return sources.map(source => ({ source, matches: [{ location: 'title', rule: 'name', text: source.nameNormalized }], score: 70 }));
+}
+
+describe('catalogs', () => {
+    test.each(LANGUAGES)('%s has every message', language => {
+        expect(Object.keys(CATALOGS[language]).sort()).toEqual(Object.keys(CATALOGS.en).sort());
+    });
+
+    test('translate', () => {
+        expect(translate('es', 'tierName', { tier: 1 })).toBe('Nivel 1');
+        expect(translate('ca', 'typeMedia')).toBe('Mitjà');
+        expect(translate('en', 'tierName')).toBe('Tier {tier}');
+    });
+
+    test('missing messages fall back to English', () => {
+        const { reportHeader } = CATALOGS.ca;
+        delete CATALOGS.ca.reportHeader;
+
+        try {
+            expect(translate('ca', 'reportHeader')).toBe('Media reliability report:');
+        }
+        finally {
+            CATALOGS.ca.reportHeader = reportHeader;
+        }
+    });
+
+    test('getReportLanguages', () => {
+        expect(getReportLanguages('ca', false)).toEqual(['ca']);
+        expect(getReportLanguages('ca', true)).toEqual(['ca', 'en', 'es']);
+    });
+});
+
+describe('localized report', () => {
+    const results = createResults(
+        createSource({ name: 'Journalist', tier: 1 }),
+        createSource({ name: 'Tabloid', tier: 5, type: 'media', domains: ['tabloid.com'] }),
+        createSource({ name: 'Aggr', type: 'aggregator' }),
+    );
+
+    test('spanish', () => {
+        expect(getCommentMarkdown(results, createSettings([], { language: 'es', commentFooter: '^(footer)' }))).toEqual([
+            '**Informe de fiabilidad de los medios:**',
+            '- **Nivel 1**: Journalist - muy fiable',
+            '- **Nivel 5**: Tabloid ([tabloid.com](https://tabloid.com)) - ❗ nada fiable',
+            '- **Agregador**: Aggr',
+            CATALOGS.es.reportWarning,
+            '^(footer)',
+        ].join('\n\n'));
+    });
+
+    test('multilingual', () => {
+        const settings = createSettings([], { language: 'ca', multilingualReport: true, commentFooter: '^(footer)' });
+        const sections = getCommentMarkdown(results.slice(0, 1), settings).split('\n\n---\n\n');
+
+        expect(sections).toEqual([
+            '**Informe de fiabilitat dels mitjans:**\n\n- **Nivell 1**: Journalist - molt fiable',
+            '**Media reliability report:**\n\n- **Tier 1**: Journalist - very reliable',
+            '**Informe de fiabilidad de los medios:**\n\n- **Nivel 1**: Journalist - muy fiable\n\n^(footer)',
+        ]);
+    });
+
+    test('custom tier labels are not translated', () => {
+        const tiers: Tier[] = [
+            { id: 1, label: 'trusted', order: 1, reliable: true, emoji: null },
+            { id: 2, label: 'unreliable', order: 2, reliable: false, emoji: '⛔' },
+        ];
+
+        expect(getTierLabel(tiers, 1, 'es')).toBe('trusted');
+        expect(getTierLabel(tiers, 2, 'es')).toBe('⛔ poco fiable');
+    });
+
+    test('flair', () => {
+        const settings = createSettings([], { language: 'es' });
+
+        expect(getFlair(createSource({ tier: 2 }), settings)?.text).toBe('Nivel 2');
+        expect(getFlair(createSource({ type: 'aggregator' }), settings)?.text).toBe('Agregador');
+    });
+});
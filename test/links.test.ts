@@ -0,0 +1,75 @@
+import { describe, expect, test } from 'vitest';
+import { describeMatch, findSourcesInPost, getCommentMarkdown, unwrapUrl } from '../src/index.js';
+import { createPostData, createSettings, createSource } from './fixtures.js';
+
+describe('unwrapUrl', () => {
+    test.each([
+        // not wrapped
+        ['https://www.marca.com/futbol/barcelona.html', 'https://www.marca.com/futbol/barcelona.html', null],
+        ['https://www.google.com/search?q=marca', 'https://www.google.com/search?q=marca', null],
+        ['https://twitter.com/FabrizioRomano/status/123', 'https://twitter.com/FabrizioRomano/status/123', null],
+        // wayback machine
+        ['https://web.archive.org/web/20240101123456/https://www.marca.com/futbol/barcelona.html', 'https://www.marca.com/futbol/barcelona.html', 'archive web.archive.org'],
+        ['https://web.archive.org/web/20240101123456id_/http://marca.com/', 'http://marca.com/', 'archive web.archive.org'],
+        ['http://web.archive.org/web/2024/https://www.sport.es/es/noticias/barca/?utm=1#top', 'https://www.sport.es/es/noticias/barca/?utm=1#top', 'archive web.archive.org'],
+        ['https://web.archive.org/web/20240101123456/www.mundodeportivo.com/futbol', 'https://www.mundodeportivo.com/futbol', 'archive web.archive.org'],
+        // archive.today
+        ['https://archive.ph/newest/https://www.marca.com/futbol/barcelona.html', 'https://www.marca.com/futbol/barcelona.html', 'archive archive.ph'],
+        ['https://archive.is/2024.01.01-123456/https://www.marca.com/futbol/barcelona.html', 'https://www.marca.com/futbol/barcelona.html', 'archive archive.is'],
+        ['https://archive.today/o/AbCd1/https://www.marca.com/', 'https://www.marca.com/', 'archive archive.today'],
+        ['https://archive.ph/AbCd1', 'https://archive.ph/AbCd1', 'archive archive.ph'],
+        // amp
+        ['https://www.google.com/amp/s/www.marca.com/amp/futbol/barcelona.html', 'https://www.marca.com/amp/futbol/barcelona.html', 'amp www.google.com'],
+        ['https://www.google.com/amp/www.marca.com/amp/futbol/barcelona.html', 'http://www.marca.com/amp/futbol/barcelona.html', 'amp www.google.com'],
+        ['https://www-marca-com.cdn.ampproject.org/c/s/www.marca.com/amp/futbol/barcelona.html', 'https://www.marca.com/amp/futbol/barcelona.html', 'amp www-marca-com.cdn.ampproject.org'],
+        ['https://www-sport-es.cdn.ampproject.org/v/s/www.sport.es/amp/barca.html?amp_js_v=0.1', 'https://www.sport.es/amp/barca.html?amp_js_v=0.1', 'amp www-sport-es.cdn.ampproject.org'],
+        // redirects
+        ['https://l.facebook.com/l.php?u=https%3A%2F%2Fwww.marca.com%2Ffutbol%2Fbarcelona.html&h=AT0abc', 'https://www.marca.com/futbol/barcelona.html', 'redirect l.facebook.com'],
+        ['https://lm.facebook.com/l.php?u=https%3A%2F%2Fwww.marca.com%2F', 'https://www.marca.com/', 'redirect lm.facebook.com'],
+        ['https://l.instagram.com/?u=https%3A%2F%2Fwww.marca.com%2F&e=abc', 'https://www.marca.com/', 'redirect l.instagram.com'],
+        ['https://www.google.com/url?sa=t&url=https%3A%2F%2Fwww.marca.com%2Ffutbol%2F&usg=abc', 'https://www.marca.com/futbol/', 'redirect www.google.com'],
+        ['https://www.google.com/url?q=https://www.marca.com/', 'https://www.marca.com/', 'redirect www.google.com'],
+        ['https://www.youtube.com/redirect?event=video_description&q=https%3A%2F%2Fwww.marca.com%2F', 'https://www.marca.com/', 'redirect www.youtube.com'],
+        ['https://out.reddit.com/t3_abc?url=https%3A%2F%2Fwww.marca.com%2F&token=abc', 'https://www.marca.com/', 'redirect out.reddit.com'],
+        ['https://href.li/?https://www.marca.com/', 'https://www.marca.com/', 'redirect href.li'],
+        // shorteners can't be resolved without following them
+        ['https://t.co/AbCdEf123', 'https://t.co/AbCdEf123', 'shortener t.co'],
+        ['https://bit.ly/3AbCdEf', 'https://bit.ly/3AbCdEf', 'shortener bit.ly'],
+        // nested, the outermost wrapper is recorded
+        ['https://web.archive.org/web/2024/https://www.google.com/amp/s/www.marca.com/amp/', 'https://www.marca.com/amp/', 'archive web.archive.org'],
+        ['https://www.google.com/url?q=https%3A%2F%2Ft.co%2FAbCdEf', 'https://t.co/AbCdEf', 'redirect www.google.com'],
+        // broken wrappers
+        ['https://web.archive.org/web/', 'https://web.archive.org/web/', 'archive web.archive.org'],
+        ['https://l.facebook.com/l.php?u=not-a-url', 'https://l.facebook.com/l.php?u=not-a-url', 'redirect l.facebook.com'],
+    ])('%s', (url, target, wrapper) => {
+        const link = unwrapUrl(new URL(url));
+
+        expect(link.target.href).toBe(target);
+        expect(link.wrapper ? `${link.wrapper.type} ${link.wrapper.hostname}` : null).toBe(wrapper);
+    });
+});
+
+describe('wrapped links', () => {
+    const marca = createSource({ id: 'marca', name: 'Marca', nameIsCommon: true, tier: 3, type: 'media', domains: ['marca.com'] });
+    const reddit = 'https://www.reddit.com/r/test/comments/abc';
+
+    test('post URL and body links are unwrapped', () => {
+        const postData = createPostData({
+            title: 'Barça news',
+            url: 'https://web.archive.org/web/2024/https://www.marca.com/futbol/barcelona.html',
+            body: `Also https://www.google.com/amp/s/www.marca.com/amp/ and ${reddit} and https://out.reddit.com/t3_abc?url=${encodeURIComponent(reddit)}`
+        });
+
+        expect(postData.url?.target.hostname).toBe('www.marca.com');
+        expect(postData.links?.map(({ target }) => target.href)).toEqual(['https://www.marca.com/amp/']);
+    });
+
+    test('matches record the wrapper', () => {
+        const settings = createSettings([marca], { showMatchDetails: true });
+        const postData = createPostData({ title: 'Barça news', url: 'https://archive.ph/newest/https://www.marca.com/futbol/barcelona.html' });
+        const results = findSourcesInPost(postData, settings) ?? [];
+
+        expect(results.flatMap(({ matches }) => matches.map(describeMatch))).toEqual(['domain "www.marca.com" in post URL (archived via archive.ph)']);
+        expect(getCommentMarkdown(results, { ...settings, commentTemplate: '{{#sources}}{{name}} ({{via}}){{/sources}}' })).toBe('Marca (archived via archive.ph)');
+    });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, test } from 'vitest';
+import { buildLintReport, lintSources, parseSourceList, validateSetting } from '../src/index.js';
+import { createSettings, createSource } from './fixtures.js';
+
+function getIssues(sources: ReturnType<typeof createSource>[]) {
+    return lintSources(sources).map(({ severity, index, id, message }) => `${severity} ${index} ${id}: ${message}`);
+}
+
+describe('lintSources', () => {
+    test('valid list', () => {
+        expect(getIssues([
+            createSource({ id: 'romano', name: 'Fabrizio Romano', twitter: 'FabrizioRomano' }),
+            createSource({ id: 'marca', name: 'Marca', nameIsCommon: true, domains: ['marca.com', 'marca.es'] }),
+        ])).toEqual([]);
+    });
+
+    test('duplicates across entries', () => {
+        expect(getIssues([
+            createSource({ id: 'a', name: 'Source A', twitter: 'handle', domains: ['a.com'] }),
+            createSource({ id: 'b', name: 'Source B', twitter: 'Handle', domains: ['A.com'] }),
+            createSource({ id: 'a', name: 'Source C' }),
+        ])).toEqual([
+            'error 1 b: Duplicate twitter handle "Handle" (also used by sources[0] "a").',
+            'error 1 b: Domain "A.com" must be lowercase.',
+            'error 1 b: Duplicate domain "A.com" (also used by sources[0] "a").',
+            'error 2 a: Duplicate id "a" (also used by sources[0] "a").',
+        ]);
+    });
+
+    test('the same domain twice in one entry is fine', () => {
+        expect(getIssues([createSource({ id: 'a', name: 'Source A', domains: ['a.com', 'a.com'] })])).toEqual([]);
+    });
+
+    test('malformed values', () => {
+        expect(getIssues([
+            createSource({ id: 'a', name: 'Source A', twitter: '@handle', domains: ['https://a.com', 'b.com/news?page=1'] }),
+            createSource({ id: 'b', name: '́', aliases: [{ name: ' ', nameIsCommon: true }] }),
+        ])).toEqual([
+            'error 0 a: Twitter handle "@handle" must not start with "@".',
+            'error 0 a: Domain "https://a.com" must not include the scheme (e.g. "https://").',
+            'error 0 a: Domain "b.com/news?page=1" must not include a query or fragment.',
+            'error 1 b: Name or alias is empty after normalization and would never match.',
+            'error 1 b: Name or alias is empty after normalization and would never match.',
+        ]);
+    });
+
+    test('organizations', () => {
+        expect(getIssues([
+            createSource({ id: 'marca', name: 'Diario Marca', type: 'media' }),
+            createSource({ id: 'a', name: 'Journalist A', organization: 'marca' }),
+            createSource({ id: 'b', name: 'Journalist B', organization: 'Marca' }),
+            createSource({ id: 'c', name: 'Journalist C', organization: 'c' }),
+            createSource({ id: 'd', name: 'Journalist D', organization: 'a' }),
+        ])).toEqual([
+            'error 2 b: Organization "Marca" is not the id of a source.',
+            'error 3 c: Organization must not be the source itself.',
+            'warning 4 d: Organization "a" is a journalist, not a media outlet.',
+        ]);
+    });
+
+    test('common words', () => {
+        expect(getIssues([
+            createSource({ id: 'marca', name: 'Marca', aliases: [{ name: 'MD', nameIsCommon: false }] }),
+            createSource({ id: 'sport', name: 'Sport', nameIsCommon: true }),
+            createSource({ id: 'mundo', name: 'El Mundo' }),
+        ])).toEqual([
+            'warning 0 marca: Name "marca" is a common word, consider setting nameIsCommon to true.',
+            'warning 0 marca: Name "md" is a common word, consider setting nameIsCommon to true.',
+        ]);
+    });
+});
+
+describe('validateSetting', () => {
+    const source = { id: 'a', name: 'Marca', nameIsCommon: false, type: 'media', tier: 3, organization: null, twitter: null, domains: ['marca.com'] };
+
+    test('rejects lint errors but not warnings', () => {
+        expect(validateSetting('sources', JSON.stringify([source]))).toBeUndefined();
+        expect(validateSetting('sources', JSON.stringify([source, source]))).toContain('Error in sources[1] "a": Duplicate id "a"');
+    });
+
+    test('wiki source lists are linted as well', () => {
+        const parsed = parseSourceList(JSON.stringify([source, { ...source, id: 'b' }]), createSettings([]).tiers);
+
+        expect(parsed.success ? [] : parsed.error.issues.map(({ message }) => message)).toEqual(['Duplicate domain "marca.com" (also used by sources[0] "a"). (id "b")']);
+    });
+});
+
+describe('buildLintReport', () => {
+    test('summary and issues', () => {
+        expect(buildLintReport([
+            createSource({ id: 'a', name: 'Marca' }),
+            createSource({ id: 'a', name: 'Source' }),
+        ])).toBe([
+            '**Source list check:** 2 sources, 1 errors, 1 warnings',
+            '- Warning in sources[0] "a": Name "marca" is a common word, consider setting nameIsCommon to true.',
+            '- Error in sources[1] "a": Duplicate id "a" (also used by sources[0] "a").',
+        ].join('\n\n'));
+    });
+});
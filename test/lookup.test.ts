@@ -0,0 +1,131 @@
+import type { TriggerContext } from '@devvit/public-api';
+import { describe, expect, test } from 'vitest';
+import { getEditDistance, getLookupMarkdown, lookupSource, parseLookupCommand, reserveLookup } from '../src/index.js';
+import { createSettings, createSource } from './fixtures.js';
+
+const settings = createSettings([
+    createSource({ id: 'marca', name: 'Marca', nameIsCommon: true, tier: 3, type: 'media', domains: ['marca.com'] }),
+    createSource({ id: 'md', name: 'Mundo Deportivo', aliases: [{ name: 'MD', nameIsCommon: true }], tier: 2, type: 'media', domains: ['mundodeportivo.com'] }),
+    createSource({ id: 'romano', name: 'Fabrizio Romano', tier: 1, twitter: 'FabrizioRomano', socials: { bluesky: 'romano.bsky.social' } }),
+    createSource({ id: 'reporter', name: 'Marca Reporter', organization: 'marca', twitter: 'marca_reporter' }),
+    createSource({ id: 'aggr', name: 'Aggr', nameIsCommon: true, type: 'aggregator' }),
+]);
+
+function lookup(query: string) {
+    const result = lookupSource(query, settings);
+    return `${result.type}: ${result.sources.map(({ id }) => id).join(', ')}`;
+}
+
+describe('parseLookupCommand', () => {
+    test.each([
+        ['!tier marca', 'marca'],
+        ['!TIER   Mundo Deportivo  ', 'Mundo Deportivo'],
+        ['What tier is this?\n\n!source @FabrizioRomano\n\nthanks', '@FabrizioRomano'],
+        ['!source https://www.marca.com/futbol.html', 'https://www.marca.com/futbol.html'],
+        ['I love the !tier command', null],
+        ['!tier', null],
+        ['!tiers marca', null],
+    ])('%s', (body, expected) => {
+        expect(parseLookupCommand(body)).toBe(expected);
+    });
+});
+
+describe('lookupSource', () => {
+    test.each([
+        // names, aliases and handles, normalized
+        ['marca', 'found: marca'],
+        ['MÁRCA', 'found: marca'],
+        ['md', 'found: md'],
+        ['@fabrizioromano', 'found: romano'],
+        ['romano.bsky.social', 'found: romano'],
+        // links
+        ['https://www.marca.com/futbol.html', 'found: marca'],
+        ['mundodeportivo.com', 'found: md'],
+        ['https://x.com/FabrizioRomano/status/1', 'found: romano'],
+        // suggestions
+        ['mundo deprotivo', 'suggestions: md'],
+        ['fabrizio', 'suggestions: romano'],
+        ['marc', 'suggestions: marca, reporter'],
+        ['nothing like it', 'suggestions: '],
+        ['unknown.com', 'suggestions: '],
+        // long queries
+        [`marca ${'a'.repeat(100)}`, 'suggestions: '],
+    ])('%s', (query, expected) => {
+        expect(lookup(query)).toBe(expected);
+    });
+
+    test('getEditDistance', () => {
+        expect(getEditDistance('marca', 'marca')).toBe(0);
+        expect(getEditDistance('marca', 'marka')).toBe(1);
+        expect(getEditDistance('deprotivo', 'deportivo')).toBe(2);
+        expect(getEditDistance('', 'abc')).toBe(3);
+    });
+});
+
+describe('getLookupMarkdown', () => {
+    test('found', () => {
+        expect(getLookupMarkdown('marca', lookupSource('marca', settings), settings)).toBe([
+            '**Media reliability of `marca`:**',
+            '- **Marca** (Media): Tier 3 - ❗ unreliable ([marca.com](https://marca.com))',
+        ].join('\n\n'));
+
+        expect(getLookupMarkdown('@marca_reporter', lookupSource('@marca_reporter', settings), settings)).toBe([
+            '**Media reliability of `@marca_reporter`:**',
+            '- **Marca Reporter** (Journalist, Marca): no tier ([@marca_reporter](https://twitter.com/marca_reporter))',
+        ].join('\n\n'));
+    });
+
+    test('inherited tiers', () => {
+        const inherited = { ...settings, inheritOrganizationTier: true };
+
+        expect(getLookupMarkdown('Marca Reporter', lookupSource('Marca Reporter', inherited), inherited)).toContain(': Tier 3 - ❗ unreliable');
+    });
+
+    test('suggestions', () => {
+        expect(getLookupMarkdown('marc', lookupSource('marc', settings), settings)).toBe('No source found for `marc`. Did you mean **Marca**, **Marca Reporter**?');
+        expect(getLookupMarkdown('x`y', lookupSource('x`y', settings), settings)).toBe('No source found for `xy`.');
+    });
+});
+
+describe('reserveLookup', () => {
+    function createContext() {
+        const values = new Map<string, string>();
+        const redis = {
+            set: (key: string, value: string, options?: { nx?: boolean }) => {
+                if (options?.nx && values.has(key)) {
+                    return Promise.resolve('');
+                }
+
+                values.set(key, value);
+                return Promise.resolve('OK');
+            },
+            del: (...keys: string[]) => {
+                keys.forEach(key => values.delete(key));
+                return Promise.resolve();
+            },
+        };
+
+        return { redis } as unknown as TriggerContext;
+    }
+
+    test('cooldowns per user and thread', async () => {
+        const context = createContext();
+
+        expect(await reserveLookup(context, 'user', 't3_a', 10, 2)).toBe(true);
+        expect(await reserveLookup(context, 'User', 't3_b', 10, 2)).toBe(false);
+        expect(await reserveLookup(context, 'other', 't3_a', 10, 2)).toBe(false);
+        expect(await reserveLookup(context, 'other', 't3_b', 10, 2)).toBe(true);
+        expect(await reserveLookup(context, 'user', 't3_c', 0, 0)).toBe(true);
+    });
+
+    test('lookups at the same time', async () => {
+        const context = createContext();
+
+        const reserved = await Promise.all([
+            reserveLookup(context, 'user', 't3_a', 10, 2),
+            reserveLookup(context, 'other', 't3_a', 10, 2),
+        ]);
+
+        expect(reserved.filter(Boolean)).toHaveLength(1);
+    });
+});
@@ -1,6 +1,6 @@
 import { describe, expect, test } from 'vitest';
-import { __test__, normalizeText, sourceSchema } from '../src/index.js';
-import type { Source } from '../src/types.js';
+import { __test__, describeMatch, findSourcesInPost, normalizeText, sourceSchema } from '../src/index.js';
+import { createPostData, createSettings, createSource } from './fixtures.js';
 
 const {
     isNameInTitle,
@@ -13,26 +13,6 @@ const {
     isTwitterInBody
 } = __test__;
 
-/**
- * Disallow passing normalized values directly to the function.
- */
-type CreateSourceParams = {
-    [key in keyof Omit<Source, 'nameNormalized' | 'twitterNormalized'>]+?: Source[key]
-};
-
-function createSource(params: CreateSourceParams) {
-    return sourceSchema.parse(({
-        id: params.id ?? Math.random().toString(),
-        name: params.name ?? 'name',
-        nameIsCommon: params.nameIsCommon ?? false,
-        type: params.type ?? 'journalist',
-        tier: params.tier ?? null,
-        organization: params.organization ?? null,
-        twitter: params.twitter ?? null,
-        domains: params.domains ?? null,
-    })) satisfies Source;
-}
-
 describe('normalization', () => {
     test('normalizeName', () => {
         const source = createSource({ name: 'fÓÓNamE' });
@@ -43,6 +23,53 @@ describe('normalization', () => {
         const source = createSource({ twitter: 'fÓÓTwitteR' });
         expect(source.twitterNormalized).toEqual('footwitter');
     });
+
+    test('normalizeAliases', () => {
+        const source = createSource({ aliases: [{ name: 'BäR', nameIsCommon: true }] });
+        expect(source.aliases.map(alias => alias.nameNormalized)).toEqual(['bar']);
+    });
+
+    test('aliases default to empty list', () => {
+        const { aliases, ...rest } = createSource({});
+        const source = sourceSchema.parse(rest);
+        expect(source.aliases).toEqual([]);
+    });
+
+    test.each([
+        // transliteration
+        ['Straße', 'strasse'],
+        ['Ødegaard', 'odegaard'],
+        ['Łódź', 'lodz'],
+        ['Đoković', 'dokovic'],
+        ['Æ Œ Þór', 'ae oe thor'],
+        ['İstanbul Kırmızı', 'istanbul kirmizi'],
+        // punctuation and whitespace
+        ['L’Équipe', 'l\'equipe'],
+        ['“Quoted” «text»', '"quoted" "text"'],
+        ['Jean‐Pierre – Jean—Paul', 'jean-pierre - jean-paul'],
+        ['no break thin', 'no break thin'],
+        ['soft­hyphen zero​width', 'softhyphen zerowidth'],
+        ['Marca：', 'marca:'],
+        // other scripts are only lowercased
+        ['Спорт-Экспресс', 'спорт-экспресс'],
+    ])('normalizeText %s', (text, expected) => {
+        expect(normalizeText(text)).toBe(expected);
+    });
+
+    test('sources and posts normalize the same', () => {
+        const settings = createSettings([
+            createSource({ id: 'equipe', name: 'L\'Équipe' }),
+            createSource({ id: 'odegaard', name: 'Martin Ødegaard' }),
+            createSource({ id: 'sport', name: 'Спорт-Экспресс' }),
+        ]);
+
+        const match = (title: string) => findSourcesInPost(createPostData({ title, url: 'https://example.com' }), settings)?.map(({ source }) => source.id) ?? [];
+
+        expect(match('L’Equipe: Martin Odegaard set to stay')).toEqual(['equipe', 'odegaard']);
+        expect(match('Спорт‐Экспресс: новости')).toEqual(['sport']);
+        expect(match('Спорт-Экспрессу сообщили')).toEqual([]);
+        expect(match('ЖСпорт-Экспресс')).toEqual([]);
+    });
 });
 
 describe('isNameInTitle', () => {
@@ -71,6 +98,22 @@ describe('isNameInTitle', () => {
         expect(result).toEqual(entries.map(([_, expected]) => expected));
     });
 
+    test('source.nameNormalized (characters outside the BMP)', () => {
+        const source = createSource({ name: 'FooName', nameIsCommon: false });
+        const astralSource = createSource({ name: 'Foo𠀀', nameIsCommon: false });
+        const entries = [
+            [source, 'title with fooName 𠀀 in it', true],
+            [source, 'title with 𠀀fooName in it', false],
+            [source, 'title with fooName𠀀 in it', false],
+            [astralSource, 'title with foo𠀀 in it', true],
+            [astralSource, 'title with foo𠀀x in it', false],
+            [astralSource, 'title with foo𠀀𠀀 in it', false],
+        ] as const;
+
+        const result = entries.map(([source, title]) => isNameInTitle({ titleNormalized: normalizeText(title), source }));
+        expect(result).toEqual(entries.map(([_, __, expected]) => expected));
+    });
+
     test('source.nameNormalized (nameIsCommon)', () => {
         const source = createSource({ name: 'FÓÓNäMê', nameIsCommon: true });
         const entries = [
@@ -89,6 +132,30 @@ describe('isNameInTitle', () => {
         const result = entries.map(([title]) => isNameInTitle({ titleNormalized: normalizeText(title), source }));
         expect(result).toEqual(entries.map(([_, expected]) => expected));
     });
+
+    test('source.aliases', () => {
+        const source = createSource({
+            name: 'FÓÓNäMê',
+            nameIsCommon: false,
+            aliases: [
+                { name: 'FN', nameIsCommon: true },
+                { name: 'Föö Näme', nameIsCommon: false }
+            ]
+        });
+        const entries = [
+            ['title with fooName in it', true],
+            ['title with foo name in it', true],
+            ['fn: rest of the title', true],
+            ['title with (fn) in it', true],
+            ['title with [fn] in it', true],
+            ['title with fn in it', false],
+            ['title with foo namex in it', false],
+            ['title with (fnx) in it', false],
+        ] as const;
+
+        const result = entries.map(([title]) => isNameInTitle({ titleNormalized: normalizeText(title), source }));
+        expect(result).toEqual(entries.map(([_, expected]) => expected));
+    });
 });
 describe('isTwitterInTitle', () => {
     test('source.twitterNormalized', () => {
@@ -239,6 +306,28 @@ describe('isNameInBody', () => {
         const result = entries.map(([body]) => isNameInBody({ bodyNormalized: normalizeText(body), source }));
         expect(result).toEqual(entries.map(([_, expected]) => expected));
     });
+
+    test('source.aliases', () => {
+        const source = createSource({
+            name: 'FÓÓNäMê',
+            nameIsCommon: true,
+            aliases: [
+                { name: 'FN', nameIsCommon: true },
+                { name: 'Föö Näme', nameIsCommon: false }
+            ]
+        });
+        const entries = [
+            ['post body with\nfoo name in it', true],
+            ['post body with\n(fn) in it', true],
+            ['post body with\n[fooName] in it', true],
+            ['post body with\nfooName in it', false],
+            ['post body with\nfn in it', false],
+            ['post body with\nfoo namex in it', false],
+        ] as const;
+
+        const result = entries.map(([body]) => isNameInBody({ bodyNormalized: normalizeText(body), source }));
+        expect(result).toEqual(entries.map(([_, expected]) => expected));
+    });
 });
 describe('isTwitterInBody', () => {
     test('source.twitterNormalized', () => {
@@ -262,4 +351,60 @@ describe('isTwitterInBody', () => {
         const result = entries.map(([body]) => isTwitterInBody({ bodyNormalized: normalizeText(body), source }));
         expect(result).toEqual(entries.map(([_, expected]) => expected));
     });
-});
\ No newline at end of file
+});
+
+describe('findSourcesInPost', () => {
+    test('match provenance', () => {
+        const marca = createSource({ id: 'marca', name: 'Marca', nameIsCommon: true, tier: 3, type: 'media', domains: ['marca.com'] });
+        const romano = createSource({ id: 'romano', name: 'Fabrizio Romano', tier: 1, twitter: 'FabrizioRomano' });
+        const settings = createSettings([marca, romano]);
+
+        const postData = createPostData({
+            title: '[Marca] Fabrizio Romano confirms the deal',
+            url: 'https://www.marca.com/futbol/barcelona.html',
+            body: 'Also confirmed by @FabrizioRomano: https://x.com/FabrizioRomano/status/123'
+        });
+
+        expect(findSourcesInPost(postData, settings)).toEqual([
+            {
+                source: romano,
+                matches: [
+                    { location: 'title', rule: 'name', text: 'fabrizio romano' },
+                    { location: 'link', rule: 'twitter', text: 'FabrizioRomano' },
+                    { location: 'body', rule: 'twitter', text: 'fabrizioromano' },
+                ],
+                score: 90
+            },
+            {
+                source: marca,
+                matches: [
+                    { location: 'title', rule: 'commonName', text: 'marca' },
+                    { location: 'url', rule: 'domain', text: 'www.marca.com' },
+                ],
+                score: 100
+            }
+        ]);
+    });
+
+    test('sort by tier order', () => {
+        const tiers = [
+            { id: 1, label: 'worst', order: 3, reliable: false, emoji: null },
+            { id: 2, label: 'best', order: 1, reliable: true, emoji: null },
+            { id: 3, label: 'middle', order: 2, reliable: true, emoji: null },
+        ];
+        const settings = createSettings([
+            createSource({ id: 'none', name: 'none', tier: null }),
+            createSource({ id: 'worst', name: 'worst', tier: 1 }),
+            createSource({ id: 'best', name: 'best', tier: 2 }),
+            createSource({ id: 'middle', name: 'middle', tier: 3 }),
+        ], { tiers });
+
+        const results = findSourcesInPost(createPostData({ title: 'none worst best middle', url: 'https://www.reddit.com' }), settings);
+        expect(results?.map(({ source }) => source.id)).toEqual(['best', 'middle', 'worst', 'none']);
+    });
+
+    test('describeMatch', () => {
+        expect(describeMatch({ location: 'url', rule: 'domain', text: 'www.marca.com' })).toEqual('domain "www.marca.com" in post URL');
+        expect(describeMatch({ location: 'body', rule: 'twitter', text: 'fabrizioromano' })).toEqual('twitter handle "fabrizioromano" in body text');
+    });
+});
@@ -0,0 +1,165 @@
+import type { TriggerContext } from '@devvit/public-api';
+import { describe, expect, test, vi } from 'vitest';
+import { applyModerationRules, evaluateModerationRules, findSourcesInPost, getModerationActions, validateModerationRuleTiers, validateSetting } from '../src/index.js';
+import type { ModerationRule } from '../src/types.js';
+import { createPostData, createSettings, createSource } from './fixtures.js';
+
+function createRule(params: Partial<ModerationRule>): ModerationRule {
+    return {
+        name: 'rule',
+        minTier: null,
+        maxTier: null,
+        types: null,
+        sourceIds: null,
+        locations: null,
+        unlessTypes: null,
+        actions: ['report'],
+        reason: null,
+        ...params
+    };
+}
+
+const sources = [
+    createSource({ id: 'romano', name: 'Fabrizio Romano', tier: 1 }),
+    createSource({ id: 'marca', name: 'Marca', nameIsCommon: true, tier: 4, type: 'media', domains: ['marca.com'] }),
+    createSource({ id: 'tabloid', name: 'Tabloid', tier: 5, type: 'media', domains: ['tabloid.com'] }),
+    createSource({ id: 'aggr', name: 'Aggr', nameIsCommon: true, type: 'aggregator' }),
+];
+
+function getTriggeredRules(moderationRules: ModerationRule[], post: { title: string, url: string, body?: string }) {
+    const settings = createSettings(sources, { moderationRules });
+    const triggered = evaluateModerationRules(findSourcesInPost(createPostData(post), settings), settings);
+
+    return triggered.map(({ rule, sources }) => [rule.name, sources.map(({ id }) => id)]);
+}
+
+describe('evaluateModerationRules', () => {
+    test('tier range', () => {
+        const rules = [
+            createRule({ name: 'tier 5', minTier: 5, maxTier: 5 }),
+            createRule({ name: 'tier 4+', minTier: 4 }),
+            createRule({ name: 'tier 1-2', maxTier: 2 }),
+        ];
+
+        expect(getTriggeredRules(rules, { title: 'Fabrizio Romano', url: 'https://tabloid.com/news' })).toEqual([
+            ['tier 5', ['tabloid']],
+            ['tier 4+', ['tabloid']],
+            ['tier 1-2', ['romano']],
+        ]);
+
+        expect(getTriggeredRules(rules, { title: 'Marca: news', url: 'https://example.com' })).toEqual([
+            ['tier 4+', ['marca']],
+        ]);
+    });
+
+    test('sources without a tier are not in any tier range', () => {
+        expect(getTriggeredRules([createRule({ maxTier: 5 })], { title: 'Aggr: news', url: 'https://example.com' })).toEqual([]);
+    });
+
+    test('types, source ids and locations', () => {
+        const rules = [
+            createRule({ name: 'media', types: ['media'] }),
+            createRule({ name: 'romano', sourceIds: ['romano'] }),
+            createRule({ name: 'url', locations: ['url'] }),
+        ];
+
+        expect(getTriggeredRules(rules, { title: 'Fabrizio Romano', url: 'https://marca.com/news' })).toEqual([
+            ['media', ['marca']],
+            ['romano', ['romano']],
+            ['url', ['marca']],
+        ]);
+
+        expect(getTriggeredRules(rules, { title: 'Marca: Fabrizio Romano', url: 'https://example.com' })).toEqual([
+            ['media', ['marca']],
+            ['romano', ['romano']],
+        ]);
+    });
+
+    test('aggregator without an original source', () => {
+        const rules = [createRule({ name: 'aggregator', types: ['aggregator'], unlessTypes: ['journalist', 'media'] })];
+
+        expect(getTriggeredRules(rules, { title: 'Aggr: news', url: 'https://example.com' })).toEqual([['aggregator', ['aggr']]]);
+        expect(getTriggeredRules(rules, { title: 'Aggr: Fabrizio Romano', url: 'https://example.com' })).toEqual([]);
+    });
+
+    test('posts without sources', () => {
+        expect(evaluateModerationRules(null, createSettings(sources, { moderationRules: [createRule({})] }))).toEqual([]);
+    });
+});
+
+describe('getModerationActions', () => {
+    test('each action is taken once, for the first rule', () => {
+        const first = { rule: createRule({ name: 'first', actions: ['report', 'lock'] }), sources };
+        const second = { rule: createRule({ name: 'second', actions: ['remove', 'lock'] }), sources };
+        const actions = getModerationActions([first, second]);
+
+        expect([...actions.keys()]).toEqual(['report', 'lock', 'remove']);
+        expect(actions.get('lock')).toBe(first);
+    });
+});
+
+describe('applyModerationRules', () => {
+    function createContext() {
+        const post = { id: 't3_crosspost', lock: vi.fn(() => Promise.resolve()) };
+        const comment = { distinguish: vi.fn(() => Promise.resolve()) };
+        const reddit = {
+            getPostById: vi.fn(() => Promise.resolve(post)),
+            remove: vi.fn(() => Promise.resolve()),
+            report: vi.fn(() => Promise.resolve()),
+            submitComment: vi.fn(() => Promise.resolve(comment)),
+            modMail: { createConversation: vi.fn(() => Promise.resolve()) },
+        };
+
+        return { context: { reddit } as unknown as TriggerContext, post, comment, reddit };
+    }
+
+    test('actions are taken on the given post', async () => {
+        const { context, post, comment, reddit } = createContext();
+        const rule = createRule({ name: 'tabloids', actions: ['remove', 'report', 'lock', 'modmail'], reason: 'Tabloid source' });
+
+        await applyModerationRules({ postId: 't3_crosspost', subredditName: 'test', triggered: [{ rule, sources }], context });
+
+        expect(reddit.getPostById).toHaveBeenCalledWith('t3_crosspost');
+        expect(reddit.remove).toHaveBeenCalledWith('t3_crosspost', false);
+        expect(reddit.submitComment).toHaveBeenCalledWith({ id: 't3_crosspost', text: 'Tabloid source' });
+        expect(comment.distinguish).toHaveBeenCalledWith(true);
+        expect(reddit.report).toHaveBeenCalledWith(post, { reason: 'Tabloid source' });
+        expect(post.lock).toHaveBeenCalled();
+        expect(reddit.modMail.createConversation).toHaveBeenCalledWith(expect.objectContaining({
+            subredditName: 'test',
+            body: expect.stringContaining('https://redd.it/crosspost') as string
+        }));
+    });
+
+    test('filter removes and reports the post', async () => {
+        const { context, post, reddit } = createContext();
+
+        await applyModerationRules({ postId: 't3_crosspost', subredditName: 'test', triggered: [{ rule: createRule({ actions: ['filter'] }), sources }], context });
+
+        expect(reddit.remove).toHaveBeenCalledWith('t3_crosspost', false);
+        expect(reddit.report).toHaveBeenCalledWith(post, { reason: 'Media reliability rule "rule"' });
+        expect(reddit.submitComment).not.toHaveBeenCalled();
+    });
+
+    test('no actions without triggered rules', async () => {
+        const { context, reddit } = createContext();
+
+        await applyModerationRules({ postId: 't3_crosspost', subredditName: 'test', triggered: [], context });
+
+        expect(reddit.getPostById).not.toHaveBeenCalled();
+    });
+});
+
+describe('validateSetting', () => {
+    test('moderationRules', () => {
+        expect(validateSetting('moderationRules', JSON.stringify([createRule({ minTier: 4 })]))).toBeUndefined();
+        expect(validateSetting('moderationRules', JSON.stringify([createRule({ actions: ['ban'] as unknown as ModerationRule['actions'] })]))).toBeDefined();
+        expect(validateSetting('moderationRules', JSON.stringify([createRule({ actions: [] })]))).toBeDefined();
+        expect(validateSetting('moderationRules', JSON.stringify([createRule({ locations: ['comments'] as unknown as ModerationRule['locations'] })]))).toBeDefined();
+    });
+
+    test('tier ranges must be in the tier list', () => {
+        expect(validateModerationRuleTiers(JSON.stringify([createRule({ minTier: 5 })]), '[]')).toBeUndefined();
+        expect(validateModerationRuleTiers(JSON.stringify([createRule({ minTier: 6 })]), '[]')).toContain('minTier 6');
+    });
+});
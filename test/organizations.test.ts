@@ -0,0 +1,37 @@
+import { describe, expect, test } from 'vitest';
+import { findSourcesInPost, getOrganization, resolveSource } from '../src/index.js';
+import { createPostData, createSettings, createSource } from './fixtures.js';
+
+const marca = createSource({ id: 'marca', name: 'Marca', nameIsCommon: true, tier: 3, type: 'media', domains: ['marca.com'] });
+const journalist = createSource({ id: 'journalist', name: 'Journalist Name', organization: 'marca' });
+const freelancer = createSource({ id: 'freelancer', name: 'Freelancer Name', tier: 1, organization: 'marca' });
+const sources = [marca, journalist, freelancer];
+
+describe('getOrganization', () => {
+    test('by source id', () => {
+        expect(getOrganization(journalist, sources)).toBe(marca);
+        expect(getOrganization(marca, sources)).toBeNull();
+        expect(getOrganization(createSource({ organization: 'unknown' }), sources)).toBeNull();
+    });
+});
+
+describe('resolveSource', () => {
+    test('tier inheritance is opt-in', () => {
+        expect(resolveSource(journalist, createSettings(sources)).tier).toBeNull();
+        expect(resolveSource(journalist, createSettings(sources, { inheritOrganizationTier: true })).tier).toBe(3);
+    });
+
+    test('own tier takes precedence', () => {
+        expect(resolveSource(freelancer, createSettings(sources, { inheritOrganizationTier: true }))).toBe(freelancer);
+    });
+
+    test('results use the inherited tier', () => {
+        const postData = createPostData({ title: 'Journalist Name and Freelancer Name', url: 'https://example.com' });
+        const results = findSourcesInPost(postData, createSettings(sources, { inheritOrganizationTier: true }));
+
+        expect(results?.map(({ source }) => [source.id, source.tier])).toEqual([
+            ['freelancer', 1],
+            ['journalist', 3],
+        ]);
+    });
+});
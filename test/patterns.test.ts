@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'vitest';
+import { describeMatch, escapeRegExp, findSourcesInPost, sourceSchema, validatePattern } from '../src/index.js';
+import { createPostData, createSettings, createSource } from './fixtures.js';
+
+function match(title: string, sources: ReturnType<typeof createSource>[], body?: string) {
+    const results = findSourcesInPost(createPostData({ title, url: 'https://example.com', body }), createSettings(sources));
+    return results?.map(({ source }) => source.id) ?? [];
+}
+
+describe('names with metacharacters', () => {
+    const sources = [
+        createSource({ id: 'as', name: 'AS (Diario)' }),
+        createSource({ id: 'sport', name: 'Sport+' }),
+        createSource({ id: 'cf', name: 'C.F. Radio' }),
+        createSource({ id: 'meta', name: '[.*?]^$|\\' }),
+    ];
+
+    test.each([
+        ['AS (Diario): Barça are close to a deal', ['as']],
+        ['According to AS (Diario), Barça are close', ['as']],
+        ['AS Diario: Barça are close', []],
+        ['Sport+ reports that Barça are close', ['sport']],
+        ['Sport reports that Barça are close', []],
+        ['ESport+ reports that Barça are close', []],
+        ['C.F. Radio: Barça are close', ['cf']],
+        ['CxFx Radio: Barça are close', []],
+        ['Quoting [.*?]^$|\\ as a source', ['meta']],
+        ['Quoting anything as a source', []],
+    ])('%s', (title, expected) => {
+        expect(match(title, sources)).toEqual(expected);
+    });
+
+    test('escapeRegExp', () => {
+        const text = 'AS (Diario) [.*+?^${}|\\]';
+        expect(new RegExp(`^${escapeRegExp(text)}$`).test(text)).toBe(true);
+        expect(new RegExp(escapeRegExp('C.F.')).test('CxFx')).toBe(false);
+    });
+});
+
+describe('custom patterns', () => {
+    const sources = [
+        createSource({ id: 'sport', name: 'Diario Sport', pattern: '\\bsport\\s*\\+\\s*(?:tv|radio)\\b' }),
+    ];
+
+    test('matched against the normalized title and body', () => {
+        expect(match('SPORT + TV: Barça are close', sources)).toEqual(['sport']);
+        expect(match('Barça are close', sources, 'via Sport+Radio')).toEqual(['sport']);
+        expect(match('Sport+ Barça are close', sources)).toEqual([]);
+    });
+
+    test('describeMatch', () => {
+        const results = findSourcesInPost(createPostData({ title: 'Sport+TV: Barça are close', url: 'https://example.com' }), createSettings(sources));
+        expect(results?.[0].matches.map(describeMatch)).toEqual(['pattern "sport+tv" in title']);
+    });
+
+    test.each([
+        ['(unclosed', false],
+        ['a{2', false],
+        ['.*', false],
+        ['x|', false],
+        ['a'.repeat(201), false],
+        ['(a+)+b', false],
+        ['(?:\\w+\\s?)*x', false],
+        ['((a*)b)+c', false],
+        ['(?<name>a{2,})+b', false],
+        ['(a{1,5}){2,}b', false],
+        ['\\bsport\\+', true],
+        ['(a+)?b', true],
+        ['(ab)+c', true],
+        ['([+*]x)+', true],
+        ['(\\+a)+', true],
+        ['(?:a{1})+b', true],
+    ])('validatePattern %s', (pattern, expected) => {
+        expect(validatePattern(pattern).success).toBe(expected);
+    });
+
+    test('invalid patterns fail source validation', () => {
+        const source = { id: 'a', name: 'a', nameIsCommon: false, type: 'media', tier: null, organization: null, domains: null };
+
+        expect(sourceSchema.safeParse({ ...source, pattern: '(unclosed' }).success).toBe(false);
+        expect(sourceSchema.safeParse({ ...source, pattern: '\\bsport\\b' }).success).toBe(true);
+        expect(sourceSchema.parse(source).pattern).toBeNull();
+    });
+});
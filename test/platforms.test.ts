@@ -0,0 +1,113 @@
+import { describe, expect, test } from 'vitest';
+import { describeMatch, findSourcesInPost, getCommentMarkdown, getHandleFromUrl, lintSources } from '../src/index.js';
+import { createPostData, createSettings, createSource } from './fixtures.js';
+
+describe('getHandleFromUrl', () => {
+    test.each([
+        // twitter and its mirrors
+        ['https://twitter.com/FabrizioRomano/status/123', 'twitter FabrizioRomano'],
+        ['https://mobile.twitter.com/FabrizioRomano', 'twitter FabrizioRomano'],
+        ['https://x.com/FabrizioRomano', 'twitter FabrizioRomano'],
+        ['https://fxtwitter.com/FabrizioRomano/status/123', 'twitter FabrizioRomano'],
+        ['https://vxtwitter.com/FabrizioRomano/status/123', 'twitter FabrizioRomano'],
+        ['https://fixupx.com/FabrizioRomano/status/123', 'twitter FabrizioRomano'],
+        ['https://nitter.net/FabrizioRomano/status/123', 'twitter FabrizioRomano'],
+        ['https://xcancel.com/FabrizioRomano', 'twitter FabrizioRomano'],
+        // bluesky
+        ['https://bsky.app/profile/romano.bsky.social', 'bluesky romano.bsky.social'],
+        ['https://bsky.app/profile/romano.bsky.social/post/3kabc', 'bluesky romano.bsky.social'],
+        ['https://bsky.app/search?q=romano', null],
+        // threads
+        ['https://www.threads.net/@fabrizioromano', 'threads fabrizioromano'],
+        ['https://www.threads.com/@fabrizioromano/post/C1abc', 'threads fabrizioromano'],
+        ['https://www.threads.net/search', null],
+        // instagram
+        ['https://www.instagram.com/fabriziorom/', 'instagram fabriziorom'],
+        ['https://www.instagram.com/stories/fabriziorom/123', 'instagram fabriziorom'],
+        ['https://www.instagram.com/p/C1abc/', null],
+        ['https://www.instagram.com/reel/C1abc/', null],
+        ['https://www.instagram.com/explore/tags/football/', null],
+        // youtube
+        ['https://www.youtube.com/@FabrizioRomanoYT', 'youtube FabrizioRomanoYT'],
+        ['https://www.youtube.com/c/FabrizioRomano/videos', 'youtube FabrizioRomano'],
+        ['https://www.youtube.com/user/FabrizioRomano', 'youtube FabrizioRomano'],
+        ['https://www.youtube.com/watch?v=abc', null],
+        // telegram
+        ['https://t.me/fabrizioromano/123', 'telegram fabrizioromano'],
+        ['https://t.me/s/fabrizioromano', 'telegram fabrizioromano'],
+        ['https://t.me/joinchat/abc', null],
+        // other sites
+        ['https://www.marca.com/FabrizioRomano', null],
+    ])('%s', (url, expected) => {
+        const found = getHandleFromUrl(new URL(url));
+
+        expect(found ? `${found.platform} ${found.handle}` : null).toBe(expected);
+    });
+});
+
+describe('social accounts', () => {
+    const romano = createSource({
+        id: 'romano',
+        name: 'Fabrizio Romano',
+        tier: 1,
+        twitter: 'FabrizioRomano',
+        socials: { bluesky: 'romano.bsky.social', youtube: 'FabrizioRomanoYT' }
+    });
+
+    test('twitter is a shorthand for socials.twitter', () => {
+        expect(romano.socials).toEqual({ twitter: 'FabrizioRomano', bluesky: 'romano.bsky.social', youtube: 'FabrizioRomanoYT' });
+        expect(romano.handles.map(({ platform, handleNormalized }) => `${platform} ${handleNormalized}`)).toEqual([
+            'twitter fabrizioromano',
+            'bluesky romano.bsky.social',
+            'youtube fabrizioromanoyt'
+        ]);
+        expect(createSource({ socials: { twitter: 'Romano' } }).twitterNormalized).toBe('romano');
+    });
+
+    test('handles are matched per platform', () => {
+        const settings = createSettings([romano]);
+        const postData = createPostData({
+            title: 'Here we go (@romano.bsky.social)',
+            url: 'https://bsky.app/profile/romano.bsky.social/post/3kabc',
+            body: 'Video: https://www.youtube.com/@FabrizioRomanoYT and https://www.instagram.com/FabrizioRomanoYT'
+        });
+
+        expect(findSourcesInPost(postData, settings)?.flatMap(({ matches }) => matches.map(describeMatch))).toEqual([
+            'bluesky handle "romano.bsky.social" in title',
+            'bluesky handle "romano.bsky.social" in post URL',
+            'youtube handle "FabrizioRomanoYT" in body link',
+            'youtube handle "fabrizioromanoyt" in body text',
+        ]);
+    });
+
+    test('the post URL must be a profile or post of the platform', () => {
+        const settings = createSettings([romano]);
+
+        expect(findSourcesInPost(createPostData({ title: 'Here we go', url: 'https://www.marca.com/FabrizioRomano' }), settings)).toBeNull();
+        expect(findSourcesInPost(createPostData({ title: 'Here we go', url: 'https://www.threads.net/@FabrizioRomano' }), settings)).toBeNull();
+        expect(findSourcesInPost(createPostData({ title: 'Here we go', url: 'https://nitter.net/FabrizioRomano/status/123' }), settings)).not.toBeNull();
+    });
+
+    test('socials placeholder', () => {
+        const settings = createSettings([romano], { commentTemplate: '{{#sources}}{{#socials}}[{{label}}]({{url}}) {{/socials}}{{/sources}}' });
+        const results = findSourcesInPost(createPostData({ title: 'Fabrizio Romano: here we go', url: 'https://www.reddit.com' }), settings) ?? [];
+
+        expect(getCommentMarkdown(results, settings)).toBe([
+            '[Twitter](https://twitter.com/FabrizioRomano)',
+            '[Bluesky](https://bsky.app/profile/romano.bsky.social)',
+            '[YouTube](https://www.youtube.com/@FabrizioRomanoYT) '
+        ].join(' '));
+    });
+
+    test('lint', () => {
+        expect(lintSources([
+            romano,
+            createSource({ id: 'a', name: 'Source A', socials: { bluesky: 'Romano.bsky.social', youtube: 'FabrizioRomano' } }),
+            createSource({ id: 'b', name: 'Source B', twitter: 'b', socials: { twitter: 'other', telegram: '@b' } }),
+        ]).map(({ index, message }) => `${index}: ${message}`)).toEqual([
+            '1: Duplicate bluesky handle "Romano.bsky.social" (also used by sources[0] "romano").',
+            '2: Twitter handle "b" is different from socials.twitter "other".',
+            '2: Telegram handle "@b" must not start with "@".',
+        ]);
+    });
+});
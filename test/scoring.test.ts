@@ -0,0 +1,96 @@
+import { describe, expect, test } from 'vitest';
+import { findSourcesInComment, findSourcesInPost, getMatchScore, lintSources, processComment } from '../src/index.js';
+import type { RedditCommentV2 } from '../src/types.js';
+import { createPostData, createSettings, createSource } from './fixtures.js';
+
+const sport = createSource({
+    id: 'sport',
+    name: 'Sport',
+    tier: 3,
+    type: 'media',
+    contextKeywords: ['diario', 'newspaper'],
+    requireContext: true,
+    negativeKeywords: ['Sporting'],
+    domains: ['sport.es'],
+});
+
+const romano = createSource({ id: 'romano', name: 'Fabrizio Romano', tier: 1, twitter: 'FabrizioRomano', negativeKeywords: ['parody'] });
+
+function score(title: string, body?: string, threshold = 50) {
+    const settings = createSettings([sport, romano], { matchScoreThreshold: threshold });
+    const results = findSourcesInPost(createPostData({ title, url: 'https://www.reddit.com', body }), settings);
+
+    return results?.map(result => `${result.source.id} ${result.score}`) ?? [];
+}
+
+describe('getMatchScore', () => {
+    test.each([
+        ['url', 'domain', 100],
+        ['link', 'domain', 90],
+        ['title', 'twitter', 100],
+        ['body', 'bluesky', 80],
+        ['title', 'commonName', 90],
+        ['title', 'name', 70],
+        ['body', 'name', 56],
+        ['body', 'pattern', 72],
+    ] as const)('%s %s', (location, rule, expected) => {
+        expect(getMatchScore(romano, { location, rule, text: 'x' }, null)).toBe(expected);
+    });
+
+    test('context', () => {
+        const match = { location: 'title', rule: 'name', text: 'x' } as const;
+
+        expect(getMatchScore(romano, match, { context: true, negative: false })).toBe(90);
+        expect(getMatchScore(romano, match, { context: false, negative: true })).toBe(20);
+        expect(getMatchScore(romano, match, { context: true, negative: true })).toBe(40);
+        expect(getMatchScore(sport, match, { context: false, negative: false })).toBe(0);
+        expect(getMatchScore(sport, match, { context: true, negative: false })).toBe(90);
+    });
+});
+
+describe('context keywords', () => {
+    test.each([
+        // required context keyword around the name
+        ['Diario Sport: Barça are close to a deal', ['sport 90']],
+        ['According to the newspaper Sport, Barça are close', ['sport 90']],
+        ['Sport: Barça are close to a deal', []],
+        ['Barça are close to a deal, reports Sport', []],
+        // whole words only, the name itself doesn't count
+        ['Diarios Sport: Barça are close', []],
+        // negative keywords
+        ['Diario Sport: Sporting are close to a deal', []],
+        ['Fabrizio Romano: here we go', ['romano 70']],
+        ['Fabrizio Romano (parody): here we go', []],
+    ])('%s', (title, expected) => {
+        expect(score(title)).toEqual(expected);
+    });
+
+    test('threshold', () => {
+        expect(score('Diario Sport: Sporting are close to a deal', undefined, 0)).toEqual(['sport 40']);
+        expect(score('Fabrizio Romano (parody): here we go', undefined, 0)).toEqual(['romano 20']);
+        expect(score('Fabrizio Romano: here we go', undefined, 71)).toEqual([]);
+        expect(score('Sport: Barça are close to a deal', undefined, 0)).toEqual([]);
+    });
+
+    test('keywords only apply to names, the best match wins', () => {
+        expect(score('Fabrizio Romano (parody): here we go', 'https://x.com/FabrizioRomano/status/1')).toEqual(['romano 90']);
+        expect(score('Sport: Barça are close to a deal', 'https://www.sport.es/es/noticias/barca.html')).toEqual(['sport 90']);
+    });
+
+    test('body matches are searched within the context window', () => {
+        const filler = 'lorem ipsum '.repeat(10);
+
+        expect(score('Barça are close', `The diario ${filler}Sport has it`)).toEqual([]);
+        expect(score('Barça are close', `The diario Sport has it ${filler}`)).toEqual(['sport 76']);
+    });
+
+    test('comments', () => {
+        const comment = processComment({ id: 't1_a', postId: 't3_a', body: 'Diario Sport says so' } as RedditCommentV2);
+        expect(findSourcesInComment(comment, createSettings([sport]))?.map(({ score }) => score)).toEqual([76]);
+    });
+
+    test('lint', () => {
+        const issues = lintSources([createSource({ id: 'a', name: 'Some Name', requireContext: true })]);
+        expect(issues.map(({ message }) => message)).toEqual(['Source requires context but has no context keywords, its name would never match.']);
+    });
+});
@@ -0,0 +1,141 @@
+import { describe, expect, test } from 'vitest';
+import { createPostStatsRecord, findSourcesInPost, getStatsDigest, getStatsDigestMarkdown, getUnmatchedDomains } from '../src/index.js';
+import type { PostStatsRecord, StatsStore } from '../src/index.js';
+import { createPostData, createSettings, createSource } from './fixtures.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Monday 2024-01-15 09:00 UTC, the digest covers 2024-01-08 to 2024-01-14
+const NOW = Date.UTC(2024, 0, 15, 9);
+const THIS_WEEK = Date.UTC(2024, 0, 10, 12);
+const LAST_WEEK = Date.UTC(2024, 0, 3, 12);
+
+const settings = createSettings([
+    createSource({ id: 'romano', name: 'Fabrizio Romano', tier: 1, twitter: 'FabrizioRomano' }),
+    createSource({ id: 'marca', name: 'Marca', nameIsCommon: true, tier: 3, type: 'media', domains: ['marca.com'] }),
+    createSource({ id: 'tabloid', name: 'Tabloid', tier: 5, type: 'media', domains: ['tabloid.com'] }),
+    createSource({ id: 'aggr', name: 'Aggr', nameIsCommon: true, type: 'aggregator' }),
+]);
+
+function createFakeStore(records: PostStatsRecord[]): StatsStore {
+    return {
+        addRecord: async record => {
+            records.push(record);
+        },
+        getRecords: async (from, to) => records.filter(({ createdAt }) => createdAt >= from && createdAt < to),
+    };
+}
+
+function createRecord(createdAt: number, sources: [string, number | null][], unmatchedDomains: string[] = []): PostStatsRecord {
+    return {
+        postId: `t3_${Math.random()}`,
+        createdAt,
+        sources: sources.map(([id, tier]) => ({ id, tier, locations: ['title'] })),
+        unmatchedDomains,
+    };
+}
+
+describe('createPostStatsRecord', () => {
+    test('sources, tiers, locations and unmatched domains', () => {
+        const postData = createPostData({
+            title: 'Fabrizio Romano: here we go',
+            url: 'https://www.marca.com/futbol/barcelona.html',
+            body: 'More at https://www.example.com/news, https://x.com/someone, https://archive.ph/AbCd1 and https://marca.com/futbol'
+        });
+        const results = findSourcesInPost(postData, settings);
+
+        expect(createPostStatsRecord({ postData, createdAt: new Date(THIS_WEEK), results, settings })).toEqual({
+            postId: 't3_test',
+            createdAt: THIS_WEEK,
+            sources: [
+                { id: 'romano', tier: 1, locations: ['title'] },
+                { id: 'marca', tier: 3, locations: ['url', 'link'] },
+            ],
+            unmatchedDomains: ['example.com'],
+        });
+    });
+
+    test('body links follow the settings', () => {
+        const postData = createPostData({ title: 'News', url: 'https://www.other.com/', body: 'https://www.example.com/news' });
+
+        expect(getUnmatchedDomains(postData, null, settings)).toEqual(['other.com', 'example.com']);
+        expect(getUnmatchedDomains(postData, null, { ...settings, analyzeLinksInBody: false })).toEqual(['other.com']);
+    });
+});
+
+describe('getStatsDigest', () => {
+    test('aggregates this week and compares it to the previous one', async () => {
+        const store = createFakeStore([
+            createRecord(THIS_WEEK, [['marca', 3], ['romano', 1]], ['example.com']),
+            createRecord(THIS_WEEK, [['marca', 3]], ['example.com', 'other.com']),
+            createRecord(THIS_WEEK, [['tabloid', 5], ['aggr', null]]),
+            createRecord(THIS_WEEK, []),
+            createRecord(LAST_WEEK, [['marca', 3]]),
+            createRecord(LAST_WEEK, [['romano', 1]]),
+            createRecord(NOW, [['tabloid', 5]]),
+            createRecord(LAST_WEEK - 7 * DAY_MS, [['tabloid', 5]]),
+        ]);
+
+        const digest = await getStatsDigest(store, settings, NOW);
+
+        expect(digest).toEqual({
+            from: Date.UTC(2024, 0, 8),
+            to: Date.UTC(2024, 0, 15),
+            posts: 4,
+            previousPosts: 2,
+            postsWithSources: 3,
+            unreliablePosts: 3,
+            previousUnreliablePosts: 1,
+            sources: [
+                { key: 'marca', count: 2, previousCount: 1 },
+                { key: 'aggr', count: 1, previousCount: 0 },
+                { key: 'romano', count: 1, previousCount: 1 },
+                { key: 'tabloid', count: 1, previousCount: 0 },
+            ],
+            tiers: [
+                { key: 1, count: 1, previousCount: 1 },
+                { key: 3, count: 2, previousCount: 1 },
+                { key: 5, count: 1, previousCount: 0 },
+                { key: null, count: 1, previousCount: 0 },
+            ],
+            unmatchedDomains: [
+                { key: 'example.com', count: 2, previousCount: 0 },
+                { key: 'other.com', count: 1, previousCount: 0 },
+            ],
+        });
+
+        expect(getStatsDigestMarkdown(digest, settings)).toBe([
+            '**Media reliability digest:** 2024-01-08 to 2024-01-14',
+            [
+                '- Posts: 4 (+2)',
+                '- Posts with sources: 3 (75.0%)',
+                '- Posts with unreliable sources: 3 (75.0%, previous week 50.0%)',
+            ].join('\n'),
+            '**Top sources:**',
+            [
+                '- Marca: 2 posts (+1)',
+                '- Aggr: 1 post (+1)',
+                '- Fabrizio Romano: 1 post (±0)',
+                '- Tabloid: 1 post (+1)',
+            ].join('\n'),
+            '**Tier distribution:**',
+            [
+                '- Tier 1 (very reliable): 1 post (±0)',
+                '- Tier 3 (❗ unreliable): 2 posts (+1)',
+                '- Tier 5 (❗ extremely unreliable): 1 post (+1)',
+                '- No tier: 1 post (+1)',
+            ].join('\n'),
+            '**Most frequent unmatched domains:**',
+            [
+                '- example.com: 2 posts',
+                '- other.com: 1 post',
+            ].join('\n'),
+        ].join('\n\n'));
+    });
+
+    test('empty week', async () => {
+        const digest = await getStatsDigest(createFakeStore([]), settings, NOW);
+
+        expect(getStatsDigestMarkdown(digest, settings)).toContain('- Posts with unreliable sources: 0 (0.0%, previous week 0.0%)\n\n**Top sources:**\n\n*No sources found.*');
+    });
+});
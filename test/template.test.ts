@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'vitest';
+import { commentTemplatePlaceholders, renderTemplate, validateSetting, validateTemplate } from '../src/index.js';
+
+describe('renderTemplate', () => {
+    test('variables and sections', () => {
+        const context = {
+            title: 'Report',
+            items: [{ name: 'foo', tier: 1 }, { name: 'bar', tier: null }],
+            warning: true,
+            footer: '',
+        };
+        const entries = [
+            ['{{title}}', 'Report'],
+            ['{{ title }}', 'Report'],
+            ['{{missing}}', ''],
+            ['{{#items}}[{{name}}]{{/items}}', '[foo][bar]'],
+            ['{{#items}}{{name}}{{#tier}} ({{tier}}){{/tier}}{{^tier}} (none){{/tier}};{{/items}}', 'foo (1);bar (none);'],
+            ['{{#items}}{{title}}:{{name}} {{/items}}', 'Report:foo Report:bar '],
+            ['{{#warning}}beware{{/warning}}', 'beware'],
+            ['{{#footer}}footer{{/footer}}{{^footer}}no footer{{/footer}}', 'no footer'],
+            ['{not a tag} {{', '{not a tag} {{'],
+            ['{{toString}}', ''],
+            ['{{#constructor}}x{{/constructor}}{{^constructor}}y{{/constructor}}', 'y'],
+        ] as const;
+
+        const result = entries.map(([template]) => renderTemplate(template, context));
+        expect(result).toEqual(entries.map(([_, expected]) => expected));
+    });
+});
+
+describe('validateTemplate', () => {
+    test('comment template placeholders', () => {
+        const entries = [
+            ['{{#sources}}{{name}} {{tier}} {{label}} {{twitter}} {{domain}} {{type}} {{organization}}{{/sources}}', true],
+            ['{{#sources}}{{#journalist}}{{name}}{{/journalist}}{{#media}}{{domain}}{{/media}}{{#aggregator}}!{{/aggregator}}{{/sources}}', true],
+            ['{{#warning}}beware{{/warning}}{{footer}}', true],
+            ['{{#sources}}{{footer}}{{/sources}}', true],
+            ['{{name}}', false],
+            ['{{sources}}', false],
+            ['{{#sources}}{{unknown}}{{/sources}}', false],
+            ['{{^sources}}{{name}}{{/sources}}', false],
+            ['{{#sources}}{{name}}', false],
+            ['{{#sources}}{{name}}{{/warning}}', false],
+            ['{{/sources}}', false],
+            ['{{toString}}', false],
+            ['{{#constructor}}x{{/constructor}}', false],
+            ['{{#sources}}{{hasOwnProperty}}{{/sources}}', false],
+        ] as const;
+
+        const result = entries.map(([template]) => validateTemplate(template, commentTemplatePlaceholders).success);
+        expect(result).toEqual(entries.map(([_, expected]) => expected));
+    });
+
+    test('validateSetting', () => {
+        expect(validateSetting('commentTemplate', '')).toBeUndefined();
+        expect(validateSetting('commentTemplate', '{{#sources}}{{name}}{{/sources}}')).toBeUndefined();
+        expect(validateSetting('commentTemplate', '{{#sources}}{{nmae}}{{/sources}}')).toContain('Unknown placeholder "{{nmae}}"');
+    });
+});
@@ -0,0 +1,419 @@
+import type { TriggerContext } from '@devvit/public-api';
+import type { CommentSubmit, PostSubmit, PostUpdate } from '@devvit/protos';
+import { describe, expect, test, vi } from 'vitest';
+import { handleCommentSubmit, handlePostSubmit, handlePostUpdate } from '../src/index.js';
+import type { LedgerEntry } from '../src/index.js';
+import { SETTING_VALUES } from './fixtures.js';
+
+const sources = JSON.stringify([
+    { id: 'romano', name: 'Fabrizio Romano', nameIsCommon: false, type: 'journalist', tier: 1, organization: null, twitter: null, domains: null },
+    { id: 'marca', name: 'Marca', nameIsCommon: true, type: 'media', tier: 3, organization: null, twitter: null, domains: ['marca.com'] },
+]);
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+type FakeComment = {
+    id: string;
+    body: string;
+    authorName: string;
+    removed: boolean;
+    distinguish: () => Promise<void>;
+    lock: () => Promise<void>;
+    edit: (params: { text: string }) => Promise<void>;
+    delete: () => Promise<void>;
+};
+
+function createContext({ body, createdAt = new Date(), settings = {} }: { body: string, createdAt?: Date, settings?: Record<string, unknown> }) {
+    const store = new Map<string, string>();
+    const expirations = new Map<string, Date>();
+    const comments = new Map<string, FakeComment>();
+    let commentCount = 0;
+
+    const post = {
+        id: 't3_post',
+        subredditName: 'test',
+        title: 'Transfer news',
+        url: 'https://www.reddit.com/r/test/comments/post/transfer_news/',
+        body,
+        createdAt,
+    };
+
+    function createComment(id: string, text: string): FakeComment {
+        const comment: FakeComment = {
+            id,
+            body: text,
+            authorName: 'media-reliability',
+            removed: false,
+            distinguish: vi.fn(() => Promise.resolve()),
+            lock: vi.fn(() => Promise.resolve()),
+            edit: vi.fn(({ text }: { text: string }) => {
+                comment.body = text;
+                return Promise.resolve();
+            }),
+            delete: vi.fn(() => {
+                comments.delete(id);
+                return Promise.resolve();
+            }),
+        };
+
+        comments.set(id, comment);
+        return comment;
+    }
+
+    const submitComment = vi.fn(({ text }: { id: string, text: string }) => Promise.resolve(createComment(`t1_${++commentCount}`, text)));
+    const getCommentById = vi.fn((id: string) => {
+        const comment = comments.get(id);
+        return comment ? Promise.resolve(comment) : Promise.reject(new Error('not found'));
+    });
+    const getPostById = vi.fn((id: string) => Promise.resolve({ ...post, id }));
+    const setPostFlair = vi.fn(() => Promise.resolve());
+    const removePostFlair = vi.fn(() => Promise.resolve());
+    const report = vi.fn((_post: { id: string }, _options: { reason: string }) => Promise.resolve());
+    const incrBy = vi.fn(() => Promise.resolve(1));
+    const getAppUser = vi.fn(() => Promise.resolve({ username: 'media-reliability' }));
+    const hset = vi.fn((_key: string, _fields: Record<string, string>) => Promise.resolve(1));
+
+    const context = {
+        settings: {
+            getAll: () => Promise.resolve({ ...SETTING_VALUES, sources, ledgerRetentionDays: 30, ...settings }),
+        },
+        redis: {
+            get: (key: string) => Promise.resolve(store.get(key)),
+            set: (key: string, value: string, options?: { nx?: boolean, expiration?: Date }) => {
+                if (options?.nx && store.has(key)) {
+                    return Promise.resolve('');
+                }
+
+                store.set(key, value);
+
+                if (options?.expiration) {
+                    expirations.set(key, options.expiration);
+                }
+
+                return Promise.resolve('OK');
+            },
+            hset,
+            hincrby: () => Promise.resolve(1),
+            incrBy,
+            del: () => Promise.resolve(),
+            expire: () => Promise.resolve(),
+        },
+        reddit: {
+            getAppUser,
+            getPostById,
+            submitComment,
+            getCommentById,
+            setPostFlair,
+            removePostFlair,
+            report,
+        },
+    } as unknown as TriggerContext;
+
+    const getEntry = (postId = 't3_post') => {
+        const value = store.get(`ledger:${postId}`);
+        return value ? JSON.parse(value) as LedgerEntry : null;
+    };
+
+    return { context, post, comments, expirations, createComment, getEntry, submitComment, getCommentById, getPostById, setPostFlair, removePostFlair, report, hset, incrBy, getAppUser };
+}
+
+const submitEvent = {
+    post: { id: 't3_post' },
+    subreddit: { name: 'test' },
+    author: { name: 'user' },
+} as unknown as PostSubmit;
+
+const crosspostEvent = {
+    ...submitEvent,
+    post: { id: 't3_crosspost', crosspostParentId: 't3_post' },
+} as unknown as PostSubmit;
+
+function createUpdateEvent(selftext: string, previousBody: string) {
+    return {
+        post: { id: 't3_post', selftext },
+        previousBody,
+        subreddit: { name: 'test' },
+        author: { name: 'user' },
+    } as unknown as PostUpdate;
+}
+
+describe('handlePostSubmit', () => {
+    test('retried triggers are skipped', async () => {
+        const { context, comments, getEntry, submitComment } = createContext({ body: 'https://marca.com/news' });
+
+        await handlePostSubmit(submitEvent, context);
+        const entry = getEntry();
+
+        await handlePostSubmit(submitEvent, context);
+
+        expect(submitComment).toHaveBeenCalledTimes(1);
+        expect(comments.size).toBe(1);
+        expect(getEntry()).toEqual(entry);
+    });
+
+    test('retries after a partial failure don\'t post the report twice', async () => {
+        const { context, comments, createComment, getEntry, submitComment } = createContext({ body: 'https://marca.com/news' });
+
+        submitComment.mockImplementationOnce(({ text }) => Promise.resolve({
+            ...createComment('t1_failed', text),
+            lock: () => Promise.reject(new Error('Lock failed'))
+        }));
+
+        await expect(handlePostSubmit(submitEvent, context)).rejects.toThrow('Lock failed');
+        expect(getEntry()?.pending).toBe(true);
+
+        await handlePostSubmit(submitEvent, context);
+
+        expect(submitComment).toHaveBeenCalledTimes(1);
+        expect([...comments.keys()]).toEqual(['t1_failed']);
+    });
+
+    test('ledger entries expire after the retention period', async () => {
+        const { context, expirations, getEntry } = createContext({ body: 'https://marca.com/news' });
+
+        await handlePostSubmit(submitEvent, context);
+        const entry = getEntry()!;
+
+        expect(entry.pending).toBeUndefined();
+        expect(expirations.get('ledger:t3_post')?.getTime()).toBe(entry.processedAt + 30 * dayMs);
+    });
+
+    test('crossposts reuse the report of their parent', async () => {
+        const { context, getEntry, submitComment } = createContext({ body: 'https://marca.com/news' });
+
+        await handlePostSubmit(submitEvent, context);
+        await handlePostSubmit(crosspostEvent, context);
+
+        expect(submitComment).toHaveBeenCalledTimes(1);
+        expect(getEntry()?.commentId).toBe('t1_1');
+        expect(getEntry('t3_crosspost')).toBeNull();
+    });
+
+    test('crossposts of a new post report the parent once', async () => {
+        const { context, getEntry, submitComment } = createContext({ body: 'https://marca.com/news' });
+
+        await handlePostSubmit(crosspostEvent, context);
+        await handlePostSubmit(crosspostEvent, context);
+        await handlePostSubmit(submitEvent, context);
+
+        expect(submitComment).toHaveBeenCalledTimes(1);
+        expect(submitComment).toHaveBeenCalledWith(expect.objectContaining({ id: 't3_post' }));
+        expect(getEntry()?.commentId).toBe('t1_1');
+    });
+
+    test('crossposts have their own stats record', async () => {
+        const { context, hset } = createContext({ body: 'https://marca.com/news' });
+
+        await handlePostSubmit(submitEvent, context);
+        await handlePostSubmit(crosspostEvent, context);
+
+        expect(hset.mock.calls.map(([, record]) => Object.keys(record))).toEqual([['t3_post'], ['t3_crosspost']]);
+    });
+
+    test('moderation rules act on the crosspost, not its parent', async () => {
+        const moderationRules = JSON.stringify([{ name: 'unreliable', minTier: 3, maxTier: null, types: null, sourceIds: null, locations: null, unlessTypes: null, actions: ['report'], reason: null }]);
+        const { context, report } = createContext({ body: 'https://marca.com/news', settings: { moderationRules } });
+
+        await handlePostSubmit(crosspostEvent, context);
+
+        expect(report).toHaveBeenCalledTimes(1);
+        expect(report).toHaveBeenCalledWith(expect.objectContaining({ id: 't3_crosspost' }), { reason: 'Media reliability rule "unreliable"' });
+    });
+
+    test('moderation rules act on crossposts of an already reported post', async () => {
+        const moderationRules = JSON.stringify([{ name: 'unreliable', minTier: 3, maxTier: null, types: null, sourceIds: null, locations: null, unlessTypes: null, actions: ['report'], reason: null }]);
+        const { context, report, submitComment } = createContext({ body: 'https://marca.com/news', settings: { moderationRules } });
+
+        await handlePostSubmit(submitEvent, context);
+        await handlePostSubmit(crosspostEvent, context);
+
+        expect(submitComment).toHaveBeenCalledTimes(1);
+        expect(report.mock.calls.map(([post]) => post.id)).toEqual(['t3_post', 't3_crosspost']);
+    });
+});
+
+describe('handlePostUpdate', () => {
+    test('report is edited in place', async () => {
+        const { context, post, comments, getEntry, submitComment } = createContext({ body: 'https://marca.com/news' });
+
+        await handlePostSubmit(submitEvent, context);
+        const { commentId } = getEntry()!;
+
+        post.body = 'https://marca.com/news and Fabrizio Romano';
+        await handlePostUpdate(createUpdateEvent(post.body, 'https://marca.com/news'), context);
+
+        expect(submitComment).toHaveBeenCalledTimes(1);
+        expect(comments.get(commentId!)?.edit).toHaveBeenCalledTimes(1);
+        expect(comments.get(commentId!)?.body).toContain('Fabrizio Romano');
+        expect(getEntry()).toEqual(expect.objectContaining({ commentId, sourceIds: ['romano', 'marca'] }));
+    });
+
+    test('report and flair are removed when no sources remain', async () => {
+        const { context, post, comments, getEntry, removePostFlair } = createContext({ body: 'https://marca.com/news' });
+
+        await handlePostSubmit(submitEvent, context);
+        expect(getEntry()?.flairText).not.toBeNull();
+
+        post.body = 'Nothing to see here';
+        await handlePostUpdate(createUpdateEvent(post.body, 'https://marca.com/news'), context);
+
+        expect(comments.size).toBe(0);
+        expect(removePostFlair).toHaveBeenCalledWith('test', 't3_post');
+        expect(getEntry()).toEqual(expect.objectContaining({ commentId: null, flairText: null, sourceIds: [] }));
+    });
+
+    test('report is submitted if there was none', async () => {
+        const { context, post, getEntry, submitComment } = createContext({ body: 'Nothing to see here' });
+
+        await handlePostSubmit(submitEvent, context);
+        expect(getEntry()?.commentId).toBeNull();
+
+        post.body = 'https://marca.com/news';
+        await handlePostUpdate(createUpdateEvent(post.body, 'Nothing to see here'), context);
+
+        expect(submitComment).toHaveBeenCalledTimes(1);
+        expect(getEntry()).toEqual(expect.objectContaining({ commentId: 't1_1', sourceIds: ['marca'] }));
+    });
+
+    test('report deleted by hand is submitted again', async () => {
+        const { context, post, comments, getEntry, submitComment } = createContext({ body: 'https://marca.com/news' });
+
+        await handlePostSubmit(submitEvent, context);
+        comments.clear();
+
+        post.body = 'https://marca.com/news and Fabrizio Romano';
+        await handlePostUpdate(createUpdateEvent(post.body, 'https://marca.com/news'), context);
+
+        expect(submitComment).toHaveBeenCalledTimes(2);
+        expect(getEntry()).toEqual(expect.objectContaining({ commentId: 't1_2', sourceIds: ['romano', 'marca'] }));
+    });
+
+    test('report removed by hand is submitted again', async () => {
+        const { context, post, comments, getEntry, submitComment } = createContext({ body: 'https://marca.com/news' });
+
+        await handlePostSubmit(submitEvent, context);
+        comments.get('t1_1')!.removed = true;
+
+        post.body = 'https://marca.com/news and Fabrizio Romano';
+        await handlePostUpdate(createUpdateEvent(post.body, 'https://marca.com/news'), context);
+
+        expect(submitComment).toHaveBeenCalledTimes(2);
+        expect(getEntry()?.commentId).toBe('t1_2');
+    });
+
+    test('report that can\'t be fetched is not submitted again', async () => {
+        const { context, post, getEntry, submitComment, getCommentById } = createContext({ body: 'https://marca.com/news' });
+
+        await handlePostSubmit(submitEvent, context);
+        const entry = getEntry();
+        getCommentById.mockRejectedValueOnce(new Error('Rate limited'));
+
+        post.body = 'https://marca.com/news and Fabrizio Romano';
+        await expect(handlePostUpdate(createUpdateEvent(post.body, 'https://marca.com/news'), context)).rejects.toThrow('Rate limited');
+
+        expect(submitComment).toHaveBeenCalledTimes(1);
+        expect(getEntry()).toEqual(entry);
+    });
+
+    test('posts without a ledger entry are ignored', async () => {
+        const { context, getEntry, submitComment } = createContext({ body: 'https://marca.com/news' });
+
+        await handlePostUpdate(createUpdateEvent('https://marca.com/news', 'Nothing to see here'), context);
+
+        expect(submitComment).not.toHaveBeenCalled();
+        expect(getEntry()).toBeNull();
+    });
+
+    test('posts still being processed are ignored', async () => {
+        const { context, post, comments, createComment, getEntry, submitComment } = createContext({ body: 'https://marca.com/news' });
+
+        submitComment.mockImplementationOnce(({ text }) => Promise.resolve({
+            ...createComment('t1_failed', text),
+            lock: () => Promise.reject(new Error('Lock failed'))
+        }));
+
+        await expect(handlePostSubmit(submitEvent, context)).rejects.toThrow('Lock failed');
+
+        post.body = 'https://marca.com/news and Fabrizio Romano';
+        await handlePostUpdate(createUpdateEvent(post.body, 'https://marca.com/news'), context);
+
+        expect(submitComment).toHaveBeenCalledTimes(1);
+        expect(comments.get('t1_failed')?.edit).not.toHaveBeenCalled();
+        expect(getEntry()?.pending).toBe(true);
+    });
+
+    test('edits that keep the body are ignored', async () => {
+        const { context, getPostById } = createContext({ body: 'https://marca.com/news' });
+
+        await handlePostUpdate(createUpdateEvent('https://marca.com/news', 'https://marca.com/news'), context);
+
+        expect(getPostById).not.toHaveBeenCalled();
+    });
+
+    test('posts older than the retention period are ignored', async () => {
+        const { context, post, getEntry, submitComment } = createContext({
+            body: 'Nothing to see here',
+            createdAt: new Date(Date.now() - 31 * dayMs)
+        });
+
+        await handlePostSubmit(submitEvent, context);
+        const entry = getEntry();
+
+        post.body = 'https://marca.com/news';
+        await handlePostUpdate(createUpdateEvent(post.body, 'Nothing to see here'), context);
+
+        expect(submitComment).not.toHaveBeenCalled();
+        expect(getEntry()).toEqual(entry);
+    });
+});
+
+describe('handleCommentSubmit', () => {
+    const settings = { analyzeComments: true, lookupCommand: true, commentWarningTier: 3 };
+
+    function createCommentEvent(body: string, author = 'user') {
+        return {
+            comment: { id: 't1_comment', postId: 't3_post', body },
+            author: { name: author },
+        } as unknown as CommentSubmit;
+    }
+
+    test('unreliable sources are warned about', async () => {
+        const { context, submitComment, incrBy } = createContext({ body: '', settings });
+
+        await handleCommentSubmit(createCommentEvent('Source: https://marca.com/news'), context);
+
+        expect(submitComment).toHaveBeenCalledTimes(1);
+        expect(submitComment).toHaveBeenCalledWith({ id: 't1_comment', text: expect.stringContaining('Marca') as string });
+        expect(incrBy).toHaveBeenCalledTimes(1);
+    });
+
+    test('lookups are answered without a warning', async () => {
+        const { context, submitComment, incrBy } = createContext({ body: '', settings });
+
+        await handleCommentSubmit(createCommentEvent('!tier marca.com'), context);
+        expect(submitComment).toHaveBeenCalledTimes(1);
+        expect(submitComment).toHaveBeenCalledWith({ id: 't1_comment', text: expect.stringContaining('Marca') as string });
+
+        await handleCommentSubmit(createCommentEvent('!tier marca.com'), context);
+        expect(submitComment).toHaveBeenCalledTimes(1);
+
+        expect(incrBy).not.toHaveBeenCalled();
+    });
+
+    test('other comments are ignored before anything is fetched', async () => {
+        const { context, submitComment, getAppUser } = createContext({ body: '', settings: { ...settings, analyzeComments: false } });
+
+        await handleCommentSubmit(createCommentEvent('Source: https://marca.com/news'), context);
+
+        expect(getAppUser).not.toHaveBeenCalled();
+        expect(submitComment).not.toHaveBeenCalled();
+    });
+
+    test('own comments are ignored', async () => {
+        const { context, submitComment } = createContext({ body: '', settings });
+
+        await handleCommentSubmit(createCommentEvent('Source: https://marca.com/news', 'media-reliability'), context);
+
+        expect(submitComment).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,124 @@
+import type { TriggerContext } from '@devvit/public-api';
+import { describe, expect, test, vi } from 'vitest';
+import { findSourcesInComment, getCommentReportReason, getCommentWarningMarkdown, getCommentWarningSources, processComment, reserveThreadWarning, validateCommentWarningTier, warnAboutComment } from '../src/index.js';
+import type { RedditCommentV2, Tier } from '../src/types.js';
+import { createSettings, createSource } from './fixtures.js';
+
+const sources = [
+    createSource({ id: 'romano', name: 'Fabrizio Romano', tier: 1, twitter: 'FabrizioRomano' }),
+    createSource({ id: 'marca', name: 'Marca', nameIsCommon: true, tier: 4, type: 'media', domains: ['marca.com'] }),
+    createSource({ id: 'tabloid', name: 'Tabloid', tier: 5, type: 'media', domains: ['tabloid.com'] }),
+    createSource({ id: 'aggr', name: 'Aggr', nameIsCommon: true, type: 'aggregator', domains: ['aggr.com'] }),
+];
+
+function createCommentData(body: string) {
+    return processComment({ id: 't1_test', postId: 't3_test', body } as RedditCommentV2);
+}
+
+function getWarningSourceIds(body: string, settings = createSettings(sources)) {
+    return getCommentWarningSources(findSourcesInComment(createCommentData(body), settings), settings).map(({ id }) => id);
+}
+
+describe('findSourcesInComment', () => {
+    test('links, names and handles', () => {
+        const settings = createSettings(sources);
+        const results = findSourcesInComment(createCommentData('Source: https://www.marca.com/news and @FabrizioRomano'), settings);
+
+        expect(results?.map(({ source, matches }) => [source.id, matches.map(({ location }) => location)])).toEqual([
+            ['romano', ['body']],
+            ['marca', ['link']],
+        ]);
+    });
+
+    test('links are analyzed regardless of the post body settings', () => {
+        const settings = createSettings(sources, { analyzeLinksInBody: false, analyzeNamesInBody: false, analyzeTwitterInBody: false });
+
+        expect(findSourcesInComment(createCommentData('https://tabloid.com/news Fabrizio Romano'), settings)?.map(({ source }) => source.id)).toEqual(['tabloid']);
+        expect(findSourcesInComment(createCommentData('no sources here'), settings)).toBeNull();
+    });
+});
+
+describe('getCommentWarningSources', () => {
+    test('only sources at or below the warning tier', () => {
+        expect(getWarningSourceIds('https://marca.com https://tabloid.com https://aggr.com Fabrizio Romano')).toEqual(['marca', 'tabloid']);
+        expect(getWarningSourceIds('https://marca.com https://tabloid.com', createSettings(sources, { commentWarningTier: 5 }))).toEqual(['tabloid']);
+        expect(getWarningSourceIds('Fabrizio Romano https://aggr.com')).toEqual([]);
+    });
+});
+
+describe('comment warning', () => {
+    test('markdown', () => {
+        const settings = createSettings(sources, { commentFooter: 'footer' });
+
+        expect(getCommentWarningMarkdown(sources.slice(1, 3), settings)).toBe([
+            '❗ Heads up: this comment references unreliable source(s):',
+            '- **Tier 4**: Marca - ❗ very unreliable\n- **Tier 5**: Tabloid - ❗ extremely unreliable',
+            'Please question any claims from it before taking them as a fact.',
+            'footer',
+        ].join('\n\n'));
+    });
+
+    test('markdown follows the language and tiers', () => {
+        const tiers: Tier[] = [
+            { id: 10, label: 'very unreliable', order: 1, reliable: false, emoji: '❗' },
+            { id: 20, label: 'fake news', order: 2, reliable: false, emoji: '⛔' },
+        ];
+        const settings = createSettings([], { tiers, language: 'es' });
+
+        expect(getCommentWarningMarkdown([createSource({ name: 'Marca', tier: 10 }), createSource({ name: 'Tabloid', tier: 20 })], settings)).toBe([
+            '❗ Atención: este comentario hace referencia a fuentes poco fiables:',
+            '- **Nivel 10**: Marca - ❗ muy poco fiable\n- **Nivel 20**: Tabloid - ⛔ fake news',
+            'Cuestiona cualquier afirmación que provenga de ellas antes de darla por cierta.',
+        ].join('\n\n'));
+    });
+
+    test('validateCommentWarningTier', () => {
+        const tiers = JSON.stringify([{ id: 10, label: 'fake news', order: 1, reliable: false, emoji: null }]);
+
+        expect(validateCommentWarningTier(true, 4, undefined)).toBeUndefined();
+        expect(validateCommentWarningTier(true, 10, tiers)).toBeUndefined();
+        expect(validateCommentWarningTier(true, 4, tiers)).toContain('Comment warning tier 4 is not in the tier list.');
+        expect(validateCommentWarningTier(false, 4, tiers)).toBeUndefined();
+    });
+
+    test('report reason is truncated', () => {
+        const many = Array.from({ length: 20 }, (_, i) => createSource({ name: `Source number ${i}` }));
+
+        expect(getCommentReportReason(sources.slice(1, 3))).toBe('Unreliable source(s): Marca, Tabloid');
+        expect(getCommentReportReason(many)).toHaveLength(100);
+    });
+
+    test('reply or report', async () => {
+        const distinguish = vi.fn();
+        const submitComment = vi.fn(() => Promise.resolve({ distinguish }));
+        const report = vi.fn();
+        const comment = { id: 't1_test' };
+        const context = { reddit: { submitComment, report, getCommentById: () => Promise.resolve(comment) } } as unknown as TriggerContext;
+        const commentData = createCommentData('https://marca.com');
+
+        await warnAboutComment({ commentData, sources: [sources[1]], settings: createSettings(sources), context });
+        expect(submitComment).toHaveBeenCalledWith({ id: 't1_test', text: expect.stringContaining('Marca') as string });
+        expect(distinguish).toHaveBeenCalled();
+
+        await warnAboutComment({ commentData, sources: [sources[1]], settings: createSettings(sources, { commentWarningAction: 'report' }), context });
+        expect(report).toHaveBeenCalledWith(comment, { reason: 'Unreliable source(s): Marca' });
+    });
+});
+
+describe('reserveThreadWarning', () => {
+    test('limit per thread', async () => {
+        const counts = new Map<string, number>();
+        const expire = vi.fn();
+        const incrBy = (key: string, value: number) => {
+            counts.set(key, (counts.get(key) ?? 0) + value);
+            return Promise.resolve(counts.get(key));
+        };
+        const context = { redis: { incrBy, expire } } as unknown as TriggerContext;
+
+        expect(await reserveThreadWarning(context, 't3_a', 2)).toBe(true);
+        expect(await reserveThreadWarning(context, 't3_a', 2)).toBe(true);
+        expect(await reserveThreadWarning(context, 't3_a', 2)).toBe(false);
+        expect(await reserveThreadWarning(context, 't3_b', 2)).toBe(true);
+        expect(expire).toHaveBeenCalledTimes(2);
+    });
+});
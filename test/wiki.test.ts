@@ -0,0 +1,181 @@
+import type { TriggerContext } from '@devvit/public-api';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { getAllSettings, getSettings, getWikiSources, parseSourceList } from '../src/index.js';
+import { SETTING_VALUES, createSettings, createSource } from './fixtures.js';
+
+const validSources = JSON.stringify([{ id: 'marca', name: 'Marca', nameIsCommon: true, type: 'media', tier: 3, organization: null, twitter: null, domains: ['marca.com'] }]);
+
+function createContext() {
+    const store = new Map<string, string>();
+    const wiki = new Map<string, { content: string, revisionId: string }>();
+    const createConversation = vi.fn();
+    const getWikiPage = vi.fn((subredditName: string, page: string) => {
+        const wikiPage = wiki.get(`${subredditName}:${page}`);
+        return wikiPage ? Promise.resolve(wikiPage) : Promise.reject(new Error('Not found'));
+    });
+
+    const context = {
+        redis: {
+            get: (key: string) => Promise.resolve(store.get(key)),
+            set: (key: string, value: string) => Promise.resolve(store.set(key, value)),
+        },
+        reddit: {
+            getCurrentSubreddit: () => Promise.resolve({ name: 'test' }),
+            getWikiPage,
+            modMail: { createConversation },
+        },
+    } as unknown as TriggerContext;
+
+    return { context, store, wiki, getWikiPage, createConversation };
+}
+
+describe('parseSourceList', () => {
+    test('same validation as the sources setting', () => {
+        expect(parseSourceList(validSources, createSettings([]).tiers).success).toBe(true);
+        expect(parseSourceList('[{"id": "marca"}]', createSettings([]).tiers).success).toBe(false);
+        expect(parseSourceList(validSources.replace('"tier":3', '"tier":7'), createSettings([]).tiers).success).toBe(false);
+    });
+});
+
+describe('getWikiSources', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    /**
+     * The page is fetched at most once a minute.
+     */
+    function waitForRefetch() {
+        vi.setSystemTime(Date.now() + 60 * 1000);
+    }
+
+    test('parsed once per revision', async () => {
+        const { context, wiki, getWikiPage } = createContext();
+        const settings = createSettings([], { sourcesWikiPage: 'sources' });
+
+        wiki.set('test:sources', { content: validSources, revisionId: 'rev1' });
+        const sources = await getWikiSources(context, settings);
+
+        expect(sources.map(({ id }) => id)).toEqual(['marca']);
+        waitForRefetch();
+        expect(await getWikiSources(context, settings)).toBe(sources);
+        expect(getWikiPage).toHaveBeenCalledTimes(2);
+
+        wiki.set('test:sources', { content: validSources.replace('Marca', 'MARCA'), revisionId: 'rev2' });
+        waitForRefetch();
+        expect((await getWikiSources(context, settings))[0].name).toBe('MARCA');
+    });
+
+    test('fetched at most once a minute', async () => {
+        const { context, wiki, getWikiPage } = createContext();
+        const settings = createSettings([], { sourcesWikiPage: 'busy' });
+
+        wiki.set('test:busy', { content: validSources, revisionId: 'rev1' });
+        const sources = await getWikiSources(context, settings);
+
+        wiki.set('test:busy', { content: validSources.replace('Marca', 'MARCA'), revisionId: 'rev2' });
+        vi.setSystemTime(Date.now() + 59 * 1000);
+        expect(await getWikiSources(context, settings)).toBe(sources);
+        expect(getWikiPage).toHaveBeenCalledTimes(1);
+
+        vi.setSystemTime(Date.now() + 1000);
+        expect((await getWikiSources(context, settings))[0].name).toBe('MARCA');
+        expect(getWikiPage).toHaveBeenCalledTimes(2);
+    });
+
+    test('invalid revisions fall back to the last good one and are reported once', async () => {
+        const { context, wiki, createConversation } = createContext();
+        const settings = createSettings([], { sourcesWikiPage: 'invalid' });
+
+        wiki.set('test:invalid', { content: validSources, revisionId: 'rev1' });
+        await getWikiSources(context, settings);
+
+        wiki.set('test:invalid', { content: '[{"id": "marca",}]', revisionId: 'rev2' });
+        waitForRefetch();
+        expect((await getWikiSources(context, settings)).map(({ id }) => id)).toEqual(['marca']);
+        expect((await getWikiSources(context, { ...settings, tiers: [...settings.tiers] })).map(({ id }) => id)).toEqual(['marca']);
+
+        expect(createConversation).toHaveBeenCalledTimes(1);
+        expect(createConversation).toHaveBeenCalledWith(expect.objectContaining({
+            subredditName: 'test',
+            body: expect.stringContaining('the previous revision (rev1) is still in use') as string
+        }));
+    });
+
+    test('sources setting is used until there is a good revision', async () => {
+        const { context, wiki, createConversation } = createContext();
+        const settingSources = [createSource({ id: 'setting' })];
+        const settings = createSettings(settingSources, { sourcesWikiPage: 'empty' });
+
+        wiki.set('test:empty', { content: 'not json', revisionId: 'rev1' });
+
+        expect(await getWikiSources(context, settings)).toBe(settingSources);
+        expect(createConversation).toHaveBeenCalledWith(expect.objectContaining({
+            body: expect.stringContaining('the sources setting is used instead') as string
+        }));
+    });
+
+    test('list of another subreddit', async () => {
+        const { context, wiki, getWikiPage } = createContext();
+        const settings = createSettings([], { sourcesWikiPage: 'shared', sourcesWikiSubreddit: 'sister' });
+
+        wiki.set('sister:shared', { content: validSources, revisionId: 'rev1' });
+
+        expect((await getWikiSources(context, settings)).map(({ id }) => id)).toEqual(['marca']);
+        expect(getWikiPage).toHaveBeenCalledWith('sister', 'shared');
+    });
+
+    test('list in use is kept when the page can not be fetched', async () => {
+        const { context, wiki } = createContext();
+        const settingSources = [createSource({ id: 'setting' })];
+        const settings = createSettings(settingSources, { sourcesWikiPage: 'flaky' });
+        const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        expect(await getWikiSources(context, settings)).toBe(settingSources);
+
+        wiki.set('test:flaky', { content: validSources, revisionId: 'rev1' });
+        waitForRefetch();
+        const sources = await getWikiSources(context, settings);
+        wiki.delete('test:flaky');
+
+        expect(sources.map(({ id }) => id)).toEqual(['marca']);
+        waitForRefetch();
+        expect(await getWikiSources(context, settings)).toBe(sources);
+        expect(consoleError).toHaveBeenCalledTimes(2);
+        consoleError.mockRestore();
+    });
+
+    test('last good revision is used when the page can not be fetched after a restart', async () => {
+        const { context, store, wiki } = createContext();
+        const settings = createSettings([createSource({ id: 'setting' })], { sourcesWikiPage: 'restarted' });
+        const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        store.set('wiki-sources:test:restarted', JSON.stringify({ revisionId: 'rev1', content: validSources, failedRevisionId: null }));
+        expect((await getWikiSources(context, settings)).map(({ id }) => id)).toEqual(['marca']);
+
+        wiki.set('test:restarted', { content: validSources.replace('Marca', 'MARCA'), revisionId: 'rev2' });
+        waitForRefetch();
+        expect((await getWikiSources(context, settings))[0].name).toBe('MARCA');
+
+        consoleError.mockRestore();
+    });
+});
+
+describe('getSettings', () => {
+    test('only getAllSettings loads the sources from the wiki page', async () => {
+        const { context, wiki, getWikiPage } = createContext();
+        Object.assign(context, { settings: { getAll: () => Promise.resolve({ ...SETTING_VALUES, sourcesWikiPage: 'settings' }) } });
+
+        wiki.set('test:settings', { content: validSources, revisionId: 'rev1' });
+
+        expect((await getSettings(context)).sources).toEqual([]);
+        expect(getWikiPage).not.toHaveBeenCalled();
+
+        expect((await getAllSettings(context)).sources.map(({ id }) => id)).toEqual(['marca']);
+        expect(getWikiPage).toHaveBeenCalledTimes(1);
+    });
+});